@@ -1,10 +1,10 @@
-import { model, Document, Model, Types, Schema } from "mongoose";
+import { model, Types, Schema } from "mongoose";
 import * as assert from "assert";
 import * as async from "async";
-import { NestedSetPlugin, INestedSetDocument } from "../../../shared/mongoose/nestedSet";
+import { NestedSetPlugin, NestedSetDocument, NestedSetModel } from "../../../shared/mongoose/nestedSet";
 
-let UserSchema: Schema<IUser & INestedSetDocument> & INestedSetDocument;
-let User: Model<(INestedSetDocument & Document & IUser), any> & INestedSetDocument;
+let UserSchema: Schema<NestedSetDocument<IUser>>;
+let User: NestedSetModel<IUser>;
 
 interface IUser {
 	username: string;
@@ -17,9 +17,9 @@ describe('NestedSet Promise', function () {
 
 				UserSchema = new Schema({
 					username: { type: String },
-				}) as any;
+				});
 				UserSchema.plugin(NestedSetPlugin, { idFieldName: "_id", parentFieldName: "parentId", parentFieldType: Schema.Types.ObjectId });
-				User = model<Document & INestedSetDocument & IUser>('UserTest', UserSchema) as any;
+				User = model<NestedSetDocument<IUser>, NestedSetModel<IUser>>('UserTest', UserSchema);
 				callback(null);
 			},
 			function (callback) {
@@ -362,7 +362,7 @@ describe('NestedSet Promise', function () {
 		});
 	});
 
-	it('pre save middleware should not set lft and rgt if there is no parentId', function (done) {
+	it('pre save middleware should place a new node without parentId behind the existing trees', function (done) {
 		let user = new User({
 			username: 'joe'
 		});
@@ -370,8 +370,9 @@ describe('NestedSet Promise', function () {
 		user.save(function (err, joe) {
 			assert.ok(!err);
 			assert.equal('joe', joe.username);
-			assert.ok(!joe.lft);
-			assert.ok(!joe.rgt);
+			assert.equal(21, joe.lft);
+			assert.equal(22, joe.rgt);
+			assert.equal(0, joe.lvl);
 
 			user.remove(); // Remove user after assertion
 
@@ -1,43 +1,386 @@
 /* Node Modules */
-import { Document, Model, ModelProperties, Schema, Types } from "mongoose";
-import { forEachSeries } from "async";
+import { ClientSession, Document, DocumentQuery, FilterQuery, Model, ModelProperties, Schema, Types } from "mongoose";
 
 export const DEFAULT_ID_FIELD = "_id";
 export const DEFAULT_PARENT_FIELD = "parentReference";
+export const DEFAULT_REMOVE_STRATEGY = "promote";
+export const DEFAULT_LOCK_COLLECTION = "nestedsetlocks";
+export const DEFAULT_AUDIT_COLLECTION = "nestedsethistory";
+export const DEFAULT_BATCH_SIZE = 1000;
+export const DEFAULT_PATH_SEPARATOR = "/";
+export const DEFAULT_BREADCRUMB_SEPARATOR = " / ";
 
-export interface INestedSetHandler {
+// Thrown when a structural change could not get hold of the tree lock
+export class NestedSetConcurrencyError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'NestedSetConcurrencyError';
+		Object.setPrototypeOf(this, NestedSetConcurrencyError.prototype);
+	}
+}
+
+// Thrown when a beforeMove hook vetoes a move
+export class NestedSetVetoError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'NestedSetVetoError';
+		Object.setPrototypeOf(this, NestedSetVetoError.prototype);
+	}
+}
+
+export type NestedSetCallback<R = any> = (err?: any, res?: R) => void;
+
+export interface INestedSetRange {
+	lft: number;
+	rgt: number;
+}
+
+// Payload of the events the model emits after a structural change. The ranges are null
+// where the node had no place in the tree, e.g. the old range of an inserted node.
+export interface INestedSetChangeEvent<T = any> {
+	node: NestedSetDocument<T>;
+	oldRange: INestedSetRange | null;
+	newRange: INestedSetRange | null;
+	// value of the groupingKey of the tree
+	group?: any;
+}
+
+export interface INestedSetMoveEvent<T = any> extends INestedSetChangeEvent<T> {
+	oldParent: any;
+	newParent: any;
+}
+
+export type NestedSetEventName = 'nodeInserted' | 'nodeRemoved' | 'subtreeMoved' | 'treeRebuilt';
+
+// Called around every subtree move, a beforeMove hook vetoes the move by returning false.
+// The return value of an afterMove hook is ignored, the move is already done when it runs.
+export type NestedSetMoveHook<T = any> = (event: INestedSetMoveEvent<T>) => void | boolean | Promise<void | boolean>;
+
+// Fields the plugin adds to every document
+export interface INestedSetFields {
 	lvl: number;
 	lft: number;
 	rgt: number;
+}
 
-	parent: (cb?: (err: any, res: any) => void) => Promise<INestedSetDocument>;
-	children: (cb?: (err: any, res: any) => void) => Promise<INestedSetDocument[]>;
-	siblings: (cb?: (err: any, res: any) => void) => Promise<INestedSetDocument[]>;
+// A node loaded as a plain object with the fields of structureFields
+interface INestedSetStructure extends INestedSetFields {
+	archivedAt?: Date | null;
+	// the id, parent and groupingKey fields, whose names depend on the options
+	[field: string]: any;
+}
+
+// Limits a traversal to a range of levels, counted from the node it starts at (its children are at depth 1)
+export interface INestedSetDepthOptions {
+	minDepth?: number;
+	maxDepth?: number;
+}
+
+export interface INestedSetTraversalOptions extends INestedSetDepthOptions {
+	// return archived nodes from children, descendants and siblings as well
+	includeArchived?: boolean;
+}
+
+export interface INestedSetCountOptions {
+	// count archived nodes as well
+	includeArchived?: boolean;
+}
+
+// A traversal method: returns a chainable query for the related nodes, optionally narrowed by filters
+export type NestedSetTraversal<T = any> = (
+	filters?: FilterQuery<NestedSetDocument<T>> | NestedSetCallback<NestedSetDocument<T>[]>,
+	fields?: any,
+	options?: INestedSetTraversalOptions & { [option: string]: any },
+	callback?: NestedSetCallback<NestedSetDocument<T>[]>
+) => DocumentQuery<NestedSetDocument<T>[], NestedSetDocument<T>>;
+
+// Methods the plugin adds to every document, T is the shape of the user's own document
+export interface INestedSetHandler<T = any> extends INestedSetFields {
+	parent: (cb?: NestedSetCallback<NestedSetDocument<T>>) => DocumentQuery<NestedSetDocument<T> | null, NestedSetDocument<T>>;
+	children: NestedSetTraversal<T>;
+	siblings: NestedSetTraversal<T>;
 	isLeaf: () => boolean;
 	isChild: () => boolean;
-	isDescendantOf: (other: INestedSetDocument) => boolean;
-	isAncestorOf: (other: INestedSetDocument) => boolean;
+	isDescendantOf: (other: INestedSetFields) => boolean;
+	isAncestorOf: (other: INestedSetFields) => boolean;
+
+	selfAndAncestors: NestedSetTraversal<T>;
+	ancestors: NestedSetTraversal<T>;
+	selfAndChildren: NestedSetTraversal<T>;
+	selfAndDescendants: NestedSetTraversal<T>;
+	descendants: NestedSetTraversal<T>;
+	selfAndSiblings: NestedSetTraversal<T>;
+	level: (cb?: NestedSetCallback<number>) => Promise<number>;
+	archivedAt?: Date | null;
+	archive: (options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	restore: (options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	descendantCount: () => number;
+	childrenCount: (options?: INestedSetCountOptions | NestedSetCallback<number>, cb?: NestedSetCallback<number>) => Promise<number>;
+	ancestorCount: (cb?: NestedSetCallback<number>) => Promise<number>;
+	countDescendants: (filters?: FilterQuery<NestedSetDocument<T>> | NestedSetCallback<number>, options?: INestedSetCountOptions | NestedSetCallback<number>, cb?: NestedSetCallback<number>) => Promise<number>;
+	moveTo: (newParent: NestedSetDocument<T>, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	appendChild: (child: NestedSetDocument<T>, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	prependChild: (child: NestedSetDocument<T>, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	insertBefore: (sibling: NestedSetDocument<T>, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	insertAfter: (sibling: NestedSetDocument<T>, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	removeNode: (strategy?: RemoveStrategy | NestedSetCallback<NestedSetDocument<T>>, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	breadcrumbs: (options?: INestedSetBreadcrumbOptions | NestedSetCallback<INestedSetBreadcrumbs<T>>, cb?: NestedSetCallback<INestedSetBreadcrumbs<T>>) => Promise<INestedSetBreadcrumbs<T>>;
+	toTree: (options?: INestedSetTreeOptions | NestedSetCallback<NestedSetTreeNode<T & INestedSetFields>>, cb?: NestedSetCallback<NestedSetTreeNode<T & INestedSetFields>>) => Promise<NestedSetTreeNode<T & INestedSetFields>>;
+}
+
+// Statics the plugin adds to the model, T is the shape of the user's own document
+export interface INestedSetStatics<T = any> {
+	rebuildTree: (parent: INestedSetFields, lft: number, options?: INestedSetRebuildOptions | NestedSetCallback<INestedSetRebuildSummary>, cb?: NestedSetCallback<INestedSetRebuildSummary>) => Promise<INestedSetRebuildSummary>;
+	rebuildForest: (options?: INestedSetRebuildOptions | NestedSetCallback<INestedSetRebuildSummary>, cb?: NestedSetCallback<INestedSetRebuildSummary>) => Promise<INestedSetRebuildSummary>;
+	commonAncestor: (a: any, b: any, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T> | null>, cb?: NestedSetCallback<NestedSetDocument<T> | null>) => Promise<NestedSetDocument<T> | null>;
+	pathBetween: (a: any, b: any, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>[]>, cb?: NestedSetCallback<NestedSetDocument<T>[]>) => Promise<NestedSetDocument<T>[]>;
+	distance: (a: any, b: any, options?: INestedSetOperationOptions | NestedSetCallback<number | null>, cb?: NestedSetCallback<number | null>) => Promise<number | null>;
+	moveNode: (nodeId: any, newParentId: any, options?: INestedSetOperationOptions | NestedSetCallback<NestedSetDocument<T>>, cb?: NestedSetCallback<NestedSetDocument<T>>) => Promise<NestedSetDocument<T>>;
+	findByPath: (path: any[], options?: INestedSetFindByPathOptions | NestedSetCallback<NestedSetDocument<T> | null>, cb?: NestedSetCallback<NestedSetDocument<T> | null>) => Promise<NestedSetDocument<T> | null>;
+	getTree: (rootId: any, options?: INestedSetTreeOptions | NestedSetCallback<NestedSetTreeNode<T & INestedSetFields>>, cb?: NestedSetCallback<NestedSetTreeNode<T & INestedSetFields>>) => Promise<NestedSetTreeNode<T & INestedSetFields>>;
+	revertChange: (entryId: any, options?: INestedSetOperationOptions | NestedSetCallback<INestedSetAuditEntry>, cb?: NestedSetCallback<INestedSetAuditEntry>) => Promise<INestedSetAuditEntry>;
+	undoLastChange: (options?: INestedSetUndoOptions | NestedSetCallback<INestedSetAuditEntry | null>, cb?: NestedSetCallback<INestedSetAuditEntry | null>) => Promise<INestedSetAuditEntry | null>;
+	beforeMove: (hook: NestedSetMoveHook<T>) => void;
+	afterMove: (hook: NestedSetMoveHook<T>) => void;
+	roots: (group?: any) => NestedSetQuery<T>;
+	leaves: (group?: any) => NestedSetQuery<T>;
+	atLevel: (level: number, group?: any) => NestedSetQuery<T>;
+	findByPathPrefix: (prefix: string | any[], filters?: FilterQuery<NestedSetDocument<T>>, fields?: any, options?: any) => DocumentQuery<NestedSetDocument<T>[], NestedSetDocument<T>>;
+	rollup: {
+		(rootOrFilter: any, options: INestedSetRollupOptions & { perNode: true }, cb?: NestedSetCallback<INestedSetRollupValue[]>): Promise<INestedSetRollupValue[]>;
+		(rootOrFilter: any, options: INestedSetRollupOptions & { perNode?: false }, cb?: NestedSetCallback<number>): Promise<number>;
+		(rootOrFilter: any, options: INestedSetRollupOptions, cb?: NestedSetCallback<number | INestedSetRollupValue[]>): Promise<number | INestedSetRollupValue[]>;
+	};
+	importTree: (data: any | any[], options?: INestedSetImportOptions | NestedSetCallback<NestedSetDocument<T>[]>, cb?: NestedSetCallback<NestedSetDocument<T>[]>) => Promise<NestedSetDocument<T>[]>;
+	verifyTree: (options?: INestedSetVerifyOptions | NestedSetCallback<INestedSetVerifyReport>, cb?: NestedSetCallback<INestedSetVerifyReport>) => Promise<INestedSetVerifyReport>;
+}
+
+// A document of a schema using the plugin
+export type NestedSetDocument<T = any> = T & Document & INestedSetHandler<T>;
+
+// Query helpers the plugin adds, they can be chained onto any query of the model
+export interface INestedSetQueryHelpers<T = any> {
+	roots: () => NestedSetQuery<T>;
+	leaves: () => NestedSetQuery<T>;
+	atLevel: (level: number) => NestedSetQuery<T>;
+	descendantsOf: (node: INestedSetFields) => NestedSetQuery<T>;
+	ancestorsOf: (node: INestedSetFields) => NestedSetQuery<T>;
+}
 
-	selfAndAncestors: (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void) => Promise<INestedSetDocument[]>;
-	ancestors: (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void) => Promise<INestedSetDocument[]>;
-	selfAndChildren: (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void) => Promise<INestedSetDocument[]>;
-	selfAndDescendants: (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void) => Promise<INestedSetDocument[]>;
-	descendants: (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void) => Promise<INestedSetDocument[]>;
-	selfAndSiblings: (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void) => Promise<INestedSetDocument[]>;
-	level: (cb?: (err?: any, res?: any) => void) => Promise<number>;
-	rebuildTree: (parent: INestedSetDocument, lft: number, cb?: (err?: any, res?: any) => void) => Promise<INestedSetDocument[]>;
+// A query of a model using the plugin
+export type NestedSetQuery<T = any> = DocumentQuery<NestedSetDocument<T>[], NestedSetDocument<T>, INestedSetQueryHelpers<T>> & INestedSetQueryHelpers<T>;
 
+// A model of a schema using the plugin
+export interface NestedSetModel<T = any> extends Model<NestedSetDocument<T>, INestedSetQueryHelpers<T>>, INestedSetStatics<T> {
+	on(event: 'subtreeMoved', listener: (event: INestedSetMoveEvent<T>) => void): this;
+	on(event: NestedSetEventName, listener: (event: INestedSetChangeEvent<T>) => void): this;
+	on(event: string | symbol, listener: (...args: any[]) => void): this;
 }
 
-export interface INestedSetDocument extends INestedSetHandler {
+// Untyped variant of NestedSetDocument, kept for code written against the earlier typings
+export interface INestedSetDocument extends INestedSetHandler, INestedSetStatics {
 	constructor: Model<Document & INestedSetDocument> & ModelProperties;
 }
 
-interface INestedSetOptions {
+// Settles an optional node style callback from a promise and hands the promise on
+const withCallback = function <T>(promise: Promise<T>, callback?: NestedSetCallback<T>): Promise<T> {
+	if (!callback) {
+		return promise;
+	}
+	return promise.then(function (res) {
+		callback(null, res);
+		return res;
+	}, function (err) {
+		callback(err);
+		return undefined;
+	});
+};
+
+type InsertPosition = 'append' | 'prepend' | 'before' | 'after';
+
+// Who makes a change and which audit entry it reverts, passed along with the call that makes the change
+interface IAuditContext {
+	actor?: any;
+	revertOf?: any;
+}
+
+// Options accepted by every operation which changes the structure of the tree
+export interface INestedSetOperationOptions {
+	session?: ClientSession;
+	// who makes the change, recorded in the audit collection
+	actor?: any;
+}
+
+// Records every structural change in a companion collection
+export interface INestedSetAuditOptions {
+	collection?: string;
+}
+
+export type NestedSetAuditOperation = 'insert' | 'remove' | 'move' | 'rebuild';
+
+// An entry of the audit collection
+export interface INestedSetAuditEntry {
+	_id: Types.ObjectId;
+	// collection of the model the entry belongs to
+	model: string;
+	operation: NestedSetAuditOperation;
+	node: any;
+	group?: any;
+	oldParent: any;
+	newParent: any;
+	oldBounds: INestedSetRange | null;
+	newBounds: INestedSetRange | null;
+	// the sibling in front of the node at its old place, to put it back there
+	previousSibling?: any;
+	// the removed node and its removed descendants, sorted by lft
+	documents?: any[];
+	// the children a removed node handed over to its parent
+	children?: any[];
+	timestamp: Date;
+	actor: any;
+	// the entry this change reverted
+	revertOf: Types.ObjectId | null;
+	reverted: boolean;
+	revertedAt?: Date;
+}
+
+export interface INestedSetUndoOptions extends INestedSetOperationOptions {
+	// value of the groupingKey of the tree to undo the last change in
+	group?: any;
+}
+
+// Serializes structural changes of one tree (or groupingKey partition) through a lock document
+export interface INestedSetConcurrencyOptions {
+	lockCollection?: string;
+	retries?: number;
+	retryDelay?: number;
+	lockTimeout?: number;
+}
+
+export interface INestedSetRebuildOptions extends INestedSetOperationOptions {
+	// 'recursive' queries and updates node by node, 'bulk' computes everything in memory
+	mode?: 'recursive' | 'bulk';
+	batchSize?: number;
+}
+
+export interface INestedSetRebuildSummary {
+	trees: number;
+	nodes: number;
+}
+
+export interface INestedSetVerifyOptions extends INestedSetOperationOptions {
+	group?: any;
+}
+
+export type NestedSetViolationType = 'missingBounds' | 'invalidBounds' | 'duplicateBound' | 'overlap' | 'gap'
+	| 'levelMismatch' | 'outsideParent' | 'orphan' | 'cycle';
+
+export interface INestedSetViolation {
+	type: NestedSetViolationType;
+	group?: any;
+	nodeId: any;
+	relatedId?: any;
+	message: string;
+}
+
+export interface INestedSetVerifyReport {
+	valid: boolean;
+	nodeCount: number;
+	violations: INestedSetViolation[];
+}
+
+export interface INestedSetTreeOptions extends INestedSetOperationOptions {
+	// number of levels below the root to include
+	maxDepth?: number;
+	includeArchived?: boolean;
+	fields?: any;
+	transform?: (node: any) => any;
+}
+
+// A node of the nested objects built by getTree and toTree
+export type NestedSetTreeNode<T = any> = T & {
+	children: NestedSetTreeNode<T>[];
+};
+
+export interface INestedSetBreadcrumbOptions extends INestedSetOperationOptions {
+	// the field shown for every node, the id by default
+	field?: string;
+	separator?: string;
+}
+
+// The chain from the root down to a node and its formatted form, e.g. michael / jim / dwight
+export interface INestedSetBreadcrumbs<T = any> {
+	nodes: NestedSetDocument<T>[];
+	text: string;
+}
+
+export interface INestedSetFindByPathOptions extends INestedSetOperationOptions {
+	// the field the path segments are compared with, the id by default
+	field?: string;
+	// value of the groupingKey to look in
+	group?: any;
+}
+
+export interface INestedSetImportOptions extends INestedSetOperationOptions {
+	// document or id of the node to import below
+	parent?: any;
+	position?: 'append' | 'prepend';
+}
+
+export type NestedSetRollupOperator = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface INestedSetRollupOptions extends INestedSetOperationOptions {
+	// the field to aggregate, not needed for 'count'
+	field?: string;
+	op: NestedSetRollupOperator;
+	// return the value for every node of the subtree instead of one total
+	perNode?: boolean;
+}
+
+// The rolled up value of the subtree below one node, as returned by rollup with perNode
+export interface INestedSetRollupValue {
+	id: any;
+	lft: number;
+	rgt: number;
+	lvl: number;
+	value: number;
+}
+
+// Materialized path kept next to lft and rgt: either the ids of all ancestors ('ids')
+// or the sourceField values from the root down to the node itself ('string', e.g. /michael/jim)
+export interface INestedSetPathOptions {
+	field: string;
+	type?: 'ids' | 'string';
+	separator?: string;
+	sourceField?: string;
+}
+
+export type RemoveStrategy = 'cascade' | 'promote' | 'restrict';
+
+const delay = function (ms: number): Promise<void> {
+	return new Promise(function (resolve) {
+		setTimeout(resolve, ms);
+	});
+};
+
+// An aggregate stored on every node and kept up to date by the plugin: 'sum' adds up the source field
+// over the node and its descendants, 'count' is the number of descendants
+export interface INestedSetCachedAggregate {
+	op: 'sum' | 'count';
+	source?: string;
+}
+
+export interface INestedSetOptions {
 	idFieldName?: string;
 	parentFieldName?: string;
 	parentFieldType?: any;
 	groupingKey?: any;
+	removeStrategy?: RemoveStrategy;
+	concurrency?: boolean | INestedSetConcurrencyOptions;
+	audit?: boolean | INestedSetAuditOptions;
+	path?: INestedSetPathOptions;
+	// cached aggregates by the name of the field they are stored in
+	cachedAggregates?: { [field: string]: INestedSetCachedAggregate };
 }
 
 export const NestedSetPlugin = (schema: Schema, options?: INestedSetOptions) => {
@@ -47,162 +390,1906 @@ export const NestedSetPlugin = (schema: Schema, options?: INestedSetOptions) =>
 		idFieldName = DEFAULT_ID_FIELD,
 		parentFieldName = DEFAULT_PARENT_FIELD,
 		parentFieldType = Schema.Types.ObjectId,
-		groupingKey
+		groupingKey,
+		removeStrategy = DEFAULT_REMOVE_STRATEGY
 	} = options;
+	const concurrency: INestedSetConcurrencyOptions = options.concurrency === true ? {} : options.concurrency || null;
+	const audit: INestedSetAuditOptions = options.audit === true ? {} : options.audit || null;
+	const pathOptions = options.path || null;
+	const pathSource = (pathOptions && pathOptions.sourceField) || idFieldName;
+	const pathSeparator = (pathOptions && pathOptions.separator) || DEFAULT_PATH_SEPARATOR;
+	const cachedAggregates = options.cachedAggregates || null;
+	const aggregateNames = cachedAggregates ? Object.keys(cachedAggregates) : [];
+
+	schema.add({ lft: { type: Number, min: 0 } });
+	schema.add({ rgt: { type: Number, min: 0 } });
+
+	// Allows level computing while editing the graph
+	schema.add({ lvl: { type: Number, min: 0, default: 0 } });
+	schema.index({ lvl: 1 });
+
+	schema.add({ [parentFieldName]: { type: parentFieldType } });
+
+	// Set on the nodes of an archived subtree, which stay in place but are hidden from the traversals
+	schema.add({ archivedAt: { type: Date } });
+
+	schema.index({ [parentFieldName]: 1 });
+	schema.index({ lft: 1, rgt: 1 });
+	schema.index({ rgt: 1 });
+
+	if (pathOptions) {
+		schema.add({ [pathOptions.field]: pathOptions.type === 'string' ? { type: String } : [{ type: parentFieldType }] });
+		schema.index({ [pathOptions.field]: 1 });
+	}
+
+	aggregateNames.forEach(function (field) {
+		const aggregate = cachedAggregates[field];
+		if (aggregate.op !== 'sum' && aggregate.op !== 'count') {
+			throw new Error('cached aggregate ' + field + ' has the unknown operator ' + aggregate.op);
+		}
+		if (aggregate.op === 'sum' && !aggregate.source) {
+			throw new Error('cached aggregate ' + field + ' needs a source field');
+		}
+		schema.add({ [field]: { type: Number, default: 0 } });
+	});
+
+	const beforeMoveHooks: NestedSetMoveHook[] = [];
+	const afterMoveHooks: NestedSetMoveHook[] = [];
+
+	const updateConditions = function (conditions, item) {
+		if (groupingKey) {
+			conditions[groupingKey] = item[groupingKey];
+		}
+		return conditions;
+	};
+
+	// Adds the session of doc to query options which do not name a session themselves
+	const applySession = function (options, doc) {
+		const session = doc && doc.$session && doc.$session();
+		if (session && !options.session) {
+			options.session = session;
+		}
+		return options;
+	};
+
+	// Fields needed to reposition a node inside the tree
+	const structureFields = function () {
+		const fields = { [idFieldName]: true, [parentFieldName]: true, lft: true, rgt: true, lvl: true, archivedAt: true };
+		if (groupingKey) {
+			fields[groupingKey] = true;
+		}
+		aggregateNames.forEach(function (field) {
+			fields[field] = true;
+			if (cachedAggregates[field].source) {
+				fields[cachedAggregates[field].source] = true;
+			}
+		});
+		return fields;
+	};
+
+	// The share of node itself in the cached aggregates of its ancestors
+	const ownAggregate = function (field: string, node: any): number {
+		const aggregate = cachedAggregates[field];
+		return aggregate.op === 'count' ? 1 : Number(node[aggregate.source]) || 0;
+	};
+
+	// The $inc for the ancestors of node when its whole subtree (or with ownOnly just node itself)
+	// is added (sign 1) or taken away (sign -1), null without cached aggregates
+	const aggregateIncrements = function (node: any, sign: number, ownOnly?: boolean): object {
+		if (!aggregateNames.length) {
+			return null;
+		}
+		const increments = {};
+		aggregateNames.forEach(function (field) {
+			const subtree = cachedAggregates[field].op === 'count' ? 1 + (Number(node[field]) || 0) : Number(node[field]) || 0;
+			increments[field] = sign * (ownOnly ? ownAggregate(field, node) : subtree);
+		});
+		return increments;
+	};
+
+	// Sets the cached aggregates of a node without descendants
+	const initAggregates = function (node: any) {
+		aggregateNames.forEach(function (field) {
+			node[field] = cachedAggregates[field].op === 'count' ? 0 : ownAggregate(field, node);
+		});
+	};
+
+	// Applies increments to the cached aggregates of every node enclosing the interval lft..rgt
+	const adjustAncestors = async function (model: NestedSetModel, item: any, lft: number, rgt: number, increments: object, session?: ClientSession): Promise<void> {
+		if (!increments || Object.keys(increments).every(function (field) { return !increments[field]; })) {
+			return;
+		}
+		await model.updateMany(updateConditions({ lft: { $lt: lft }, rgt: { $gt: rgt } }, item), { $inc: increments }, { session });
+	};
+
+	// Recomputes the cached aggregates of all nodes between lft and rgt in the tree of item, which
+	// have to form whole subtrees, and passes the difference on to the nodes enclosing them
+	const recomputeAggregates = async function (model: NestedSetModel, item: any, lft: number, rgt: number, session?: ClientSession): Promise<void> {
+		if (!aggregateNames.length || lft > rgt) {
+			return;
+		}
+		// sorted by rgt every node comes right after its descendants
+		const nodes = await model.find(updateConditions({ lft: { $gte: lft }, rgt: { $lte: rgt } }, item), structureFields(), { lean: true, sort: { rgt: 1 }, session });
+
+		const operations = [];
+		const done: { node: any, values: object }[] = [];
+		nodes.forEach(function (node) {
+			const values = {};
+			aggregateNames.forEach(function (field) {
+				values[field] = cachedAggregates[field].op === 'count' ? 0 : ownAggregate(field, node);
+			});
+			while (done.length && done[done.length - 1].node["lft"] > node["lft"]) {
+				const child = done.pop();
+				aggregateNames.forEach(function (field) {
+					values[field] += child.values[field] + (cachedAggregates[field].op === 'count' ? 1 : 0);
+				});
+			}
+			if (aggregateNames.some(function (field) { return values[field] !== node[field]; })) {
+				operations.push({ updateOne: { filter: { [idFieldName]: node[idFieldName] }, update: { $set: values } } });
+			}
+			done.push({ node, values });
+		});
+
+		for (let i = 0; i < operations.length; i += DEFAULT_BATCH_SIZE) {
+			await model.bulkWrite(operations.slice(i, i + DEFAULT_BATCH_SIZE), { ordered: false, session });
+		}
+
+		const increments = {};
+		aggregateNames.forEach(function (field) {
+			increments[field] = 0;
+		});
+		done.forEach(function (entry) {
+			const before = aggregateIncrements(entry.node, 1);
+			const after = aggregateIncrements(Object.assign({}, entry.node, entry.values), 1);
+			aggregateNames.forEach(function (field) {
+				increments[field] += after[field] - before[field];
+			});
+		});
+		await adjustAncestors(model, item, lft, rgt, increments, session);
+	};
+
+	// Fields needed to compute the materialized path of a node
+	const pathFields = function () {
+		const fields = Object.assign(structureFields(), { [pathOptions.field]: true });
+		fields[pathSource] = true;
+		return fields;
+	};
+
+	// Materialized path of node below ancestors (sorted by lft): the ids of the ancestors, or the
+	// source field values of the ancestors and node itself joined like /michael/jim/dwight
+	const pathOf = function (ancestors: any[], node: any): any {
+		if (pathOptions.type === 'string') {
+			return ancestors.concat([node]).map(function (item) {
+				return pathSeparator + item[pathSource];
+			}).join('');
+		}
+		return ancestors.map(function (item) {
+			return item[idFieldName];
+		});
+	};
+
+	// Adds the lvl range for the minDepth and maxDepth options to conditions, relative to the level of node
+	const depthConditions = function (conditions: any, node: any, options: INestedSetDepthOptions) {
+		const level = node["lvl"] || 0;
+		if (options.minDepth !== undefined && options.minDepth !== null) {
+			conditions["lvl"] = Object.assign({}, conditions["lvl"], { $gte: level + options.minDepth });
+		}
+		if (options.maxDepth !== undefined && options.maxDepth !== null) {
+			conditions["lvl"] = Object.assign({}, conditions["lvl"], { $lte: level + options.maxDepth });
+		}
+		return conditions;
+	};
+
+	// Adds the archivedAt condition unless the includeArchived option is set
+	const archiveConditions = function (conditions: object, options?: INestedSetCountOptions) {
+		if (!options || !options.includeArchived) {
+			conditions["archivedAt"] = null;
+		}
+		return conditions;
+	};
+
+	// Sets the materialized path of a node whose bounds are already in place
+	const computePath = async function (model: NestedSetModel, node: NestedSetDocument, session?: ClientSession): Promise<void> {
+		if (!pathOptions) {
+			return;
+		}
+		const ancestors = await model.find(
+			updateConditions({ lft: { $lt: node["lft"] }, rgt: { $gt: node["rgt"] } }, node),
+			pathFields(),
+			{ lean: true, sort: { lft: 1 }, session }
+		);
+		node[pathOptions.field] = pathOf(ancestors, node);
+	};
+
+	// Recomputes the materialized paths of all nodes between lft and rgt in the tree of item,
+	// which have to form whole subtrees, and writes the ones which changed
+	const refreshPaths = async function (model: NestedSetModel, item: any, lft: number, rgt: number, session?: ClientSession): Promise<void> {
+		if (!pathOptions || lft > rgt) {
+			return;
+		}
+		const ancestors = await model.find(updateConditions({ lft: { $lt: lft }, rgt: { $gt: rgt } }, item), pathFields(), { lean: true, sort: { lft: 1 }, session });
+		const nodes = await model.find(updateConditions({ lft: { $gte: lft }, rgt: { $lte: rgt } }, item), pathFields(), { lean: true, sort: { lft: 1 }, session });
+
+		const stack = ancestors.slice();
+		const operations = [];
+		nodes.forEach(function (node) {
+			while (stack.length > ancestors.length && stack[stack.length - 1]["rgt"] < node["lft"]) {
+				stack.pop();
+			}
+			const value = pathOf(stack, node);
+			if (String(value) !== String(node[pathOptions.field])) {
+				operations.push({
+					updateOne: {
+						filter: { [idFieldName]: node[idFieldName] },
+						update: { $set: { [pathOptions.field]: value } }
+					}
+				});
+			}
+			stack.push(node);
+		});
+
+		for (let i = 0; i < operations.length; i += DEFAULT_BATCH_SIZE) {
+			await model.bulkWrite(operations.slice(i, i + DEFAULT_BATCH_SIZE), { ordered: false, session });
+		}
+	};
+
+	// Shifts every bound at or behind position by width, making room for width new bounds in the tree of item
+	const openGap = async function (model: NestedSetModel, item: any, position: number, width: number, session?: ClientSession): Promise<void> {
+		await model.updateMany(updateConditions({ lft: { $gte: position } }, item), { $inc: { lft: width } }, { session });
+		await model.updateMany(updateConditions({ rgt: { $gte: position } }, item), { $inc: { rgt: width } }, { session });
+	};
+
+	// Shifts every bound behind rgt back by width, closing the gap left by an interval ending at rgt
+	const closeGap = async function (model: NestedSetModel, item: any, rgt: number, width: number, session?: ClientSession): Promise<void> {
+		await model.updateMany(updateConditions({ lft: { $gt: rgt } }, item), { $inc: { lft: -width } }, { session });
+		await model.updateMany(updateConditions({ rgt: { $gt: rgt } }, item), { $inc: { rgt: -width } }, { session });
+	};
+
+	// Moves node and its descendants so that node's lft ends up at position (counted before the move)
+	// and its lvl at level. Opens a gap at the target, shifts the subtree into it and closes the gap
+	// it left behind, so the cost is a fixed number of updateMany calls regardless of the tree size.
+	const moveSubtree = async function (model: NestedSetModel, node: INestedSetStructure, position: number, level: number, session?: ClientSession): Promise<{ lft: number, rgt: number }> {
+		let lft = node["lft"];
+		let rgt = node["rgt"];
+		const width = rgt - lft + 1;
+		const levelOffset = level - (node["lvl"] || 0);
+
+		if (levelOffset === 0 && (position === lft || position === rgt + 1)) {
+			// node is already at the requested position
+			return { lft, rgt };
+		}
+
+		await adjustAncestors(model, node, lft, rgt, aggregateIncrements(node, -1), session);
+		await openGap(model, node, position, width, session);
+		if (lft >= position) {
+			lft += width;
+			rgt += width;
+		}
+
+		// shift the subtree into the gap
+		const offset = position - lft;
+		await model.updateMany(
+			updateConditions({ lft: { $gte: lft }, rgt: { $lte: rgt } }, node),
+			{ $inc: { lft: offset, rgt: offset, lvl: levelOffset } },
+			{ session }
+		);
+
+		await closeGap(model, node, rgt, width, session);
+
+		const newLft = position > rgt ? position - width : position;
+		await adjustAncestors(model, node, newLft, newLft + width - 1, aggregateIncrements(node, 1), session);
+		return { lft: newLft, rgt: newLft + width - 1 };
+	};
+
+	// The range of node, null while the tree is not built
+	const rangeOf = function (node: any): INestedSetRange | null {
+		return node && node["lft"] && node["rgt"] ? { lft: node["lft"], rgt: node["rgt"] } : null;
+	};
+
+	const changeEvent = function (node: NestedSetDocument, oldRange: INestedSetRange | null, newRange: INestedSetRange | null): INestedSetChangeEvent {
+		return { node, oldRange, newRange, group: groupingKey ? node[groupingKey] : undefined };
+	};
+
+	// Runs the beforeMove hooks one after the other, a hook returning false stops the move
+	const runBeforeMoveHooks = async function (model: NestedSetModel, event: INestedSetMoveEvent): Promise<void> {
+		for (const hook of beforeMoveHooks) {
+			if (await hook(event) === false) {
+				throw new NestedSetVetoError('Moving the ' + model.modelName + ' was vetoed');
+			}
+		}
+	};
+
+	const auditCollection = function (model: NestedSetModel) {
+		return model.db.collection(audit.collection || DEFAULT_AUDIT_COLLECTION);
+	};
+
+	// Writes entries to the audit collection, context holds the actor and the entry a revert undoes
+	const recordChanges = async function (model: NestedSetModel, entries: Partial<INestedSetAuditEntry>[], context: IAuditContext, session?: ClientSession): Promise<void> {
+		if (!audit || !entries.length) {
+			return;
+		}
+		context = context || {};
+		const timestamp = new Date();
+		await auditCollection(model).insertMany(entries.map(function (entry) {
+			return Object.assign({
+				model: model.collection.name,
+				timestamp,
+				actor: context.actor === undefined ? null : context.actor,
+				revertOf: context.revertOf || null,
+				reverted: false
+			}, entry);
+		}), { session });
+	};
+
+	// The id of the node right in front of stored under the same parent, only needed for the audit
+	const findPreviousSibling = async function (model: NestedSetModel, stored: any, session?: ClientSession): Promise<any> {
+		if (!audit) {
+			return null;
+		}
+		const sibling = await model.findOne(
+			updateConditions({ [parentFieldName]: stored[parentFieldName] || null, rgt: stored["lft"] - 1 }, stored),
+			{ [idFieldName]: true },
+			{ lean: true, session }
+		);
+		return sibling ? sibling[idFieldName] : null;
+	};
+
+	// Loads the stored position of the node with the given id
+	const findStructure = async function (model: NestedSetModel, id: any, session?: ClientSession): Promise<INestedSetStructure | null> {
+		return model.findOne({ [idFieldName]: id }, structureFields(), { lean: true, session });
+	};
+
+	// Clears the modified state of the fields of node which were just brought in line with the stored tree,
+	// so that a later save of node does not write them back over newer values
+	const unmarkSynced = function (node: NestedSetDocument, fields: string[]): void {
+		if ('function' !== typeof node.unmarkModified) {
+			return;
+		}
+		fields.forEach(function (field) {
+			node.unmarkModified(field);
+		});
+	};
+
+	// Moves the subtree of node, whose stored position is stored, to position and level below parentId.
+	// The beforeMove hooks may veto the move, subtreeMoved and the afterMove hooks follow it.
+	const relocateSubtree = async function (model: NestedSetModel, node: NestedSetDocument, stored: INestedSetStructure, position: number, level: number, parentId: any, session?: ClientSession, context?: IAuditContext): Promise<NestedSetDocument> {
+		const width = stored["rgt"] - stored["lft"] + 1;
+		const newLft = position > stored["rgt"] ? position - width : position;
+		const event: INestedSetMoveEvent = Object.assign(changeEvent(node, rangeOf(stored), { lft: newLft, rgt: newLft + width - 1 }), {
+			oldParent: stored[parentFieldName] || null,
+			newParent: parentId || null
+		});
+		await runBeforeMoveHooks(model, event);
+		const previousSibling = await findPreviousSibling(model, stored, session);
+
+		const bounds = await moveSubtree(model, stored, position, level, session);
+		await model.updateOne({ [idFieldName]: stored[idFieldName] }, { $set: { [parentFieldName]: parentId || null } }, { session });
+		const archivedAt = await parentArchivedAt(model, parentId, session);
+		if (archivedAt) {
+			await model.updateMany(updateConditions({ lft: { $gte: bounds.lft }, rgt: { $lte: bounds.rgt }, archivedAt: null }, stored), { $set: { archivedAt } }, { session });
+			if (!node["archivedAt"]) {
+				node["archivedAt"] = archivedAt;
+			}
+		}
+		await refreshPaths(model, stored, bounds.lft, bounds.rgt, session);
+
+		node["lft"] = bounds.lft;
+		node["rgt"] = bounds.rgt;
+		node["lvl"] = level;
+		node[parentFieldName] = parentId || null;
+		await computePath(model, node, session);
+		unmarkSynced(node, ['lft', 'rgt', 'lvl', parentFieldName, 'archivedAt'].concat(pathOptions ? [pathOptions.field] : []));
+
+		await recordChanges(model, [{
+			operation: 'move',
+			node: stored[idFieldName],
+			group: event.group,
+			oldParent: event.oldParent,
+			newParent: event.newParent,
+			oldBounds: event.oldRange,
+			newBounds: rangeOf(bounds),
+			previousSibling
+		}], context, session);
+		model.emit('subtreeMoved', event);
+		for (const hook of afterMoveHooks) {
+			await hook(event);
+		}
+		return node;
+	};
+
+	// The archivedAt of the parent with parentId, which nodes placed below it inherit so that
+	// nothing shows up below a hidden node
+	const parentArchivedAt = async function (model: NestedSetModel, parentId: any, session?: ClientSession): Promise<Date | null> {
+		if (!parentId) {
+			return null;
+		}
+		const parent = await model.findOne({ [idFieldName]: parentId }, { archivedAt: true }, { lean: true, session });
+		return (parent && parent["archivedAt"]) || null;
+	};
+
+	// Saves a new node which already has its place in the tree, handing context to the insert audit entry
+	// for the duration of the save only
+	const saveNewNode = async function (node: NestedSetDocument, session?: ClientSession, context?: IAuditContext): Promise<NestedSetDocument> {
+		node.$locals.auditContext = context;
+		try {
+			return await node.save({ session });
+		} finally {
+			delete node.$locals.auditContext;
+		}
+	};
+
+	// Puts node relative to the node with referenceId: as its last or first child ('append', 'prepend')
+	// or as the sibling right before or after it ('before', 'after'). A new node gets a 2-wide gap
+	// at that spot and is saved, an existing node is moved there together with its descendants.
+	const insertNode = async function (model: NestedSetModel, node: NestedSetDocument, referenceId: any, where: InsertPosition, session?: ClientSession, context?: IAuditContext): Promise<NestedSetDocument> {
+		const reference = await findStructure(model, referenceId, session);
+		if (!reference) {
+			throw new Error(model.modelName + ' not found');
+		}
+		if (!reference["lft"] || !reference["rgt"]) {
+			throw new Error('tree is not built for ' + model.modelName + ' nodes');
+		}
+
+		let position: number;
+		let level: number;
+		let parentId: any;
+		if (where === 'append' || where === 'prepend') {
+			position = where === 'append' ? reference["rgt"] : reference["lft"] + 1;
+			level = (reference["lvl"] || 0) + 1;
+			parentId = reference[idFieldName];
+		} else {
+			position = where === 'before' ? reference["lft"] : reference["rgt"] + 1;
+			level = reference["lvl"] || 0;
+			parentId = reference[parentFieldName];
+		}
+
+		if (node.isNew) {
+			if (groupingKey && !node[groupingKey]) {
+				node[groupingKey] = reference[groupingKey];
+			}
+			if (groupingKey && String(node[groupingKey]) !== String(reference[groupingKey])) {
+				throw new Error('Cannot insert ' + model.modelName + ' into another tree');
+			}
+			await node.validate();
+
+			await openGap(model, reference, position, 2, session);
+			node["lft"] = position;
+			node["rgt"] = position + 1;
+			node["lvl"] = level;
+			node[parentFieldName] = parentId;
+			const archivedAt = where === 'append' || where === 'prepend' ? reference["archivedAt"] : await parentArchivedAt(model, parentId, session);
+			if (archivedAt) {
+				node["archivedAt"] = archivedAt;
+			}
+			await computePath(model, node, session);
+			initAggregates(node);
+			await adjustAncestors(model, node, node["lft"], node["rgt"], aggregateIncrements(node, 1), session);
+			return saveNewNode(node, session, context);
+		}
+
+		const current = await findStructure(model, node[idFieldName], session);
+		if (!current) {
+			throw new Error(model.modelName + ' not found');
+		}
+		if (!current["lft"] || !current["rgt"]) {
+			throw new Error('tree is not built for ' + model.modelName + ' nodes');
+		}
+		if (groupingKey && String(current[groupingKey]) !== String(reference[groupingKey])) {
+			throw new Error('Cannot move ' + model.modelName + ' into another tree');
+		}
+		if (position > current["lft"] && position <= current["rgt"]) {
+			throw new Error('Cannot move ' + model.modelName + ' under itself or one of its descendants');
+		}
+
+		return relocateSubtree(model, node, current, position, level, parentId, session, context);
+	};
+
+	// Returns the highest rgt of the tree item belongs to
+	const findMaxRgt = async function (model: NestedSetModel, item: any, session?: ClientSession): Promise<number> {
+		const last = await model.findOne(updateConditions({}, item), { rgt: true }, { sort: { rgt: -1 }, lean: true, session });
+		return (last && last["rgt"]) || 0;
+	};
+
+	// Moves an already positioned node whose parent reference was changed, together with its descendants,
+	// to the end of its new parent's children or behind the last node of the tree if it became a root
+	const followParentChange = async function (model: NestedSetModel, node: NestedSetDocument, session?: ClientSession): Promise<void> {
+		const stored = await findStructure(model, node[idFieldName], session);
+		if (!stored || String(stored[parentFieldName] || '') === String(node[parentFieldName] || '')) {
+			return;
+		}
+
+		if (node[parentFieldName]) {
+			await insertNode(model, node, node[parentFieldName], 'append', session);
+		} else {
+			await relocateSubtree(model, node, stored, await findMaxRgt(model, stored, session) + 1, 0, null, session);
+		}
+	};
+
+	// Passes the change of the source fields of node on to its own cached aggregates and those of its ancestors
+	const followSourceChange = async function (model: NestedSetModel, node: NestedSetDocument, session?: ClientSession): Promise<void> {
+		const stored = await findStructure(model, node[idFieldName], session);
+		if (!stored || !stored["lft"] || !stored["rgt"]) {
+			return;
+		}
+		const increments = {};
+		aggregateNames.forEach(function (field) {
+			increments[field] = cachedAggregates[field].op === 'count' ? 0 : ownAggregate(field, node) - ownAggregate(field, stored);
+			node[field] = (Number(stored[field]) || 0) + increments[field];
+		});
+		await adjustAncestors(model, stored, stored["lft"], stored["rgt"], increments, session);
+	};
+
+	// Opens a 2-wide gap for a new node behind its last sibling, or behind the lft of its parent
+	// when it is the first child. The tree is left alone while it is not built.
+	const appendNewNode = async function (model: NestedSetModel, node: NestedSetDocument, session?: ClientSession): Promise<void> {
+		const parentNode = await findStructure(model, node[parentFieldName], session);
+		if (!parentNode || !parentNode["lft"] || !parentNode["rgt"]) {
+			// parent node does not have lft and rgt set. This means tree was not built.
+			return;
+		}
+
+		//Update level based on parentNode level
+		node["lvl"] = (parentNode["lvl"] || 0) + 1;
+		if (parentNode["archivedAt"]) {
+			node["archivedAt"] = parentNode["archivedAt"];
+		}
+
+		// find siblings and check if they have lft and rgt values set
+		const nodes = await model.find(
+			{ [parentFieldName]: node[parentFieldName], [idFieldName]: { $ne: node[idFieldName] } },
+			{ lft: true, rgt: true },
+			{ lean: true, session }
+		);
+		if (!nodes.every(function (sibling) { return sibling["lft"] && sibling["rgt"]; })) {
+			// the siblings do not have lft and rgt set. This means tree was not built.
+			return;
+		}
+
+		// if it is a leaf node, the maxRgt should be the lft value of the parent
+		let maxRgt = parentNode["lft"];
+		nodes.forEach(function (sibling) {
+			if (sibling["rgt"] > maxRgt) {
+				maxRgt = sibling["rgt"];
+			}
+		});
+
+		await openGap(model, node, maxRgt + 1, 2, session);
+		node["lft"] = maxRgt + 1;
+		node["rgt"] = maxRgt + 2;
+		await computePath(model, node, session);
+		initAggregates(node);
+		await adjustAncestors(model, node, node["lft"], node["rgt"], aggregateIncrements(node, 1), session);
+	};
+
+	// Takes the lock of the tree item belongs to, if the concurrency option is set, and returns the function
+	// releasing it. The lock is a document in the lock collection which is inserted by exactly one writer at
+	// a time; everybody else retries until it is released or expired and gives up after the configured retries.
+	const lockTree = async function (model: NestedSetModel, item: any): Promise<() => Promise<void>> {
+		if (!concurrency) {
+			return async function () {
+				// nothing was locked
+			};
+		}
+
+		const locks = model.db.collection(concurrency.lockCollection || DEFAULT_LOCK_COLLECTION);
+		// documents without the groupingKey belong to the same partition as the ones where it is null
+		const group = groupingKey ? item[groupingKey] : undefined;
+		const key = model.collection.name + (groupingKey ? ':' + String(group === undefined ? null : group) : '');
+		const owner = new Types.ObjectId();
+		const retries = concurrency.retries === undefined ? 100 : concurrency.retries;
+
+		for (let attempt = 0; ; attempt++) {
+			const now = Date.now();
+			try {
+				await locks.updateOne(
+					{ _id: key, $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }] },
+					{ $set: { owner, lockedUntil: now + (concurrency.lockTimeout || 30000) } },
+					{ upsert: true }
+				);
+				break;
+			} catch (err) {
+				if (err.code !== 11000) {
+					throw err;
+				}
+				if (attempt >= retries) {
+					throw new NestedSetConcurrencyError('Could not lock the tree ' + key + ' after ' + attempt + ' retries');
+				}
+				await delay(concurrency.retryDelay || 20);
+			}
+		}
+
+		return async function () {
+			await locks.deleteOne({ _id: key, owner });
+		};
+	};
+
+	// Runs task while holding the lock of the tree item belongs to
+	const withTreeLock = async function <T>(model: NestedSetModel, item: any, task: () => Promise<T>): Promise<T> {
+		const release = await lockTree(model, item);
+		try {
+			return await task();
+		} finally {
+			await release();
+		}
+	};
+
+	// Releases the lock pre('save') took for doc, once doc is written or its save failed
+	const releaseSaveLock = async function (doc: NestedSetDocument): Promise<void> {
+		const release = doc.$locals.releaseLock;
+		delete doc.$locals.releaseLock;
+		if (release) {
+			await release();
+		}
+	};
+
+	schema.pre('save', function (next): void {
+		const self: NestedSetDocument = this;
+		const session = self.$session();
+		// the paths below a node depend on its source field, they are refreshed once it is saved
+		self.$locals.pathSourceModified = !self.isNew && pathOptions && pathOptions.type === 'string' && self.isModified(pathSource);
+		self.$locals.inserted = self.isNew;
+
+		// runs task under the tree lock, which is held until the document is written so that nobody
+		// else computes bounds from a tree which does not contain it yet
+		const locked = function (task: () => Promise<void>): void {
+			lockTree(self.constructor, self).then(function (release) {
+				self.$locals.releaseLock = release;
+				return task();
+			}).then(function () {
+				next();
+			}, function (err) {
+				releaseSaveLock(self).then(function () {
+					next(err);
+				}, next);
+			});
+		};
+
+		if (self.isNew && self["lft"] && self["rgt"]) {
+			// new node was already given its place by one of the insertion methods
+			next();
+		} else if (!self.isNew) {
+			const sourceModified = aggregateNames.some(function (field) {
+				return cachedAggregates[field].source && self.isModified(cachedAggregates[field].source);
+			});
+			if ((self.isModified(parentFieldName) || sourceModified) && self["lft"] && self["rgt"]) {
+				locked(async function () {
+					if (self.isModified(parentFieldName)) {
+						await followParentChange(self.constructor, self, session);
+					}
+					if (sourceModified) {
+						await followSourceChange(self.constructor, self, session);
+					}
+				});
+			} else {
+				// ordinary update or the tree was not built yet, so leave the structure alone
+				next();
+			}
+		} else if (self[parentFieldName]) {
+			locked(function () {
+				return appendNewNode(self.constructor, self, session);
+			});
+		} else {
+			// no parentId is set, so the new node becomes a root behind the last tree
+			locked(async function () {
+				const maxRgt = await findMaxRgt(self.constructor, self, session);
+				self["lft"] = maxRgt + 1;
+				self["rgt"] = maxRgt + 2;
+				self["lvl"] = 0;
+				if (pathOptions) {
+					self[pathOptions.field] = pathOf([], self);
+				}
+				initAggregates(self);
+			});
+		}
+	});
+
+	// the lock of pre('save') is released before the other post hooks run, as they take it again
+	schema.post('save', function (doc: NestedSetDocument, next) {
+		releaseSaveLock(doc).then(function () {
+			next();
+		}, next);
+	});
+
+	schema.post('save', function (error: any, doc: NestedSetDocument, next) {
+		releaseSaveLock(doc).then(function () {
+			next(error);
+		}, function () {
+			next(error);
+		});
+	});
+
+	schema.post('save', function (doc: NestedSetDocument, next) {
+		if (!doc.$locals.pathSourceModified || !doc["lft"] || !doc["rgt"]) {
+			return next();
+		}
+		doc.$locals.pathSourceModified = false;
+		withTreeLock(doc.constructor, doc, async function () {
+			// the bounds held in memory are stale once the tree changed after doc was loaded
+			const stored = await findStructure(doc.constructor, doc[idFieldName], doc.$session());
+			if (stored && stored["lft"] && stored["rgt"]) {
+				await refreshPaths(doc.constructor, stored, stored["lft"], stored["rgt"], doc.$session());
+			}
+		}).then(function () {
+			next();
+		}, next);
+	});
+
+	schema.post('save', function (doc: NestedSetDocument, next) {
+		if (!doc.$locals.inserted) {
+			return next();
+		}
+		doc.$locals.inserted = false;
+		recordChanges(doc.constructor, [{
+			operation: 'insert',
+			node: doc[idFieldName],
+			group: groupingKey ? doc[groupingKey] : undefined,
+			oldParent: null,
+			newParent: doc[parentFieldName] || null,
+			oldBounds: null,
+			newBounds: rangeOf(doc)
+		}], doc.$locals.auditContext, doc.$session()).then(function () {
+			doc.constructor.emit('nodeInserted', changeEvent(doc, null, rangeOf(doc)));
+			next();
+		}, next);
+	});
+
+	// Takes node out of the tree and closes the gap by the width of the interval that is actually removed.
+	// 'cascade' deletes the descendants as well, 'promote' hands the children over to node's parent
+	// and 'restrict' refuses to remove a node which still has children.
+	const removeFromTree = async function (model: NestedSetModel, node: NestedSetDocument, strategy: RemoveStrategy, session?: ClientSession, context?: IAuditContext): Promise<INestedSetRange | null> {
+		const stored = await findStructure(model, node[idFieldName], session);
+		if (!stored || !stored["lft"] || !stored["rgt"]) {
+			// the tree was not built, so there is nothing to close
+			return null;
+		}
+
+		const lft = stored["lft"];
+		const rgt = stored["rgt"];
+		const entry: Partial<INestedSetAuditEntry> = {
+			operation: 'remove',
+			node: stored[idFieldName],
+			group: groupingKey ? stored[groupingKey] : undefined,
+			oldParent: stored[parentFieldName] || null,
+			newParent: null,
+			oldBounds: { lft, rgt },
+			newBounds: null,
+			previousSibling: await findPreviousSibling(model, stored, session),
+			// the stored document, the one in memory may be stale or loaded with a projection
+			documents: audit ? [await model.findOne({ [idFieldName]: stored[idFieldName] }, null, { lean: true, session })] : []
+		};
+
+		let width = 2;
+		if (rgt - lft > 1) {
+			if (strategy === 'restrict') {
+				throw new Error('Cannot remove ' + model.modelName + ' which still has children');
+			} else if (strategy === 'cascade') {
+				if (audit) {
+					const descendants = await model.find(updateConditions({ lft: { $gt: lft }, rgt: { $lt: rgt } }, stored), null, { lean: true, sort: { lft: 1 }, session });
+					entry.documents = entry.documents.concat(descendants);
+				}
+				await model.deleteMany(updateConditions({ lft: { $gt: lft }, rgt: { $lt: rgt } }, stored), { session });
+				width = rgt - lft + 1;
+			} else {
+				if (audit) {
+					const children = await model.find(updateConditions({ [parentFieldName]: stored[idFieldName] }, stored), { [idFieldName]: true }, { lean: true, sort: { lft: 1 }, session });
+					entry.children = children.map(function (child) {
+						return child[idFieldName];
+					});
+				}
+				await model.updateMany(updateConditions({ [parentFieldName]: stored[idFieldName] }, stored), { $set: { [parentFieldName]: stored[parentFieldName] || null } }, { session });
+				await model.updateMany(updateConditions({ lft: { $gt: lft }, rgt: { $lt: rgt } }, stored), { $inc: { lft: -1, rgt: -1, lvl: -1 } }, { session });
+				await refreshPaths(model, stored, lft, rgt - 2, session);
+			}
+		}
+
+		// the ancestors lose the whole subtree, or only node itself when its children stay
+		await adjustAncestors(model, stored, lft, rgt, aggregateIncrements(stored, -1, width === 2), session);
+		await closeGap(model, stored, rgt, width, session);
+		await recordChanges(model, [entry], context, session);
+		return { lft, rgt };
+	};
+
+	schema.pre('remove', function (next) {
+		const self: NestedSetDocument = this;
+		const locals = self.$locals || {};
+		withTreeLock(self.constructor, self, function () {
+			return removeFromTree(self.constructor, self, locals.removeStrategy || removeStrategy, self.$session(), locals.auditContext);
+		}).then(function (range) {
+			locals.removedRange = range;
+			next();
+		}, next);
+	});
+
+	schema.post('remove', function (doc: NestedSetDocument) {
+		doc.constructor.emit('nodeRemoved', changeEvent(doc, (doc.$locals || {}).removedRange || null, null));
+	});
+
+	// Puts nodes which are sorted by lft but have no bounds yet behind the others, so a rebuild keeps
+	// the order of the siblings already in the tree and appends the new ones in insertion order
+	const boundsFirst = function <N>(nodes: N[]): N[] {
+		return nodes.filter(function (node) {
+			return !!node["lft"];
+		}).concat(nodes.filter(function (node) {
+			return !node["lft"];
+		}));
+	};
+
+	// Builds the subtree of parent by populating lft, rgt and lvl using the parentIds
+	const rebuildSubtree = async function (model: NestedSetModel, parent: INestedSetStructure, left: number, level: number, session?: ClientSession): Promise<void> {
+		parent["lft"] = left;
+		parent["rgt"] = left + 1;
+		parent["lvl"] = level;
+
+		const stored = await model.find({ [parentFieldName]: parent[idFieldName] }, { [parentFieldName]: true, rgt: true, lft: true }, { lean: true, sort: { lft: 1 }, session });
+
+		if (!stored) {
+			throw new Error(model.modelName + ' not found');
+		}
+		const children = boundsFirst(stored);
+
+		for (const item of children) {
+			await rebuildSubtree(model, item, parent["rgt"], level + 1, session);
+			parent["rgt"] = item["rgt"] + 1;
+		}
+		await model.updateOne({ [idFieldName]: parent[idFieldName] }, { lft: parent["lft"], rgt: parent["rgt"], lvl: level }, { session });
+	};
+
+	// The level of node counted along the stored parent references, as the stored lvl may be the thing being repaired
+	const depthOf = async function (model: NestedSetModel, node: INestedSetStructure, session?: ClientSession): Promise<number> {
+		const seen = new Set<string>();
+		let depth = -1;
+		let id = node[idFieldName];
+		while (id !== null && id !== undefined && !seen.has(String(id))) {
+			seen.add(String(id));
+			const item = await model.findOne({ [idFieldName]: id }, { [parentFieldName]: true }, { lean: true, session });
+			if (!item) {
+				break;
+			}
+			depth++;
+			id = item[parentFieldName];
+		}
+		return Math.max(depth, 0);
+	};
+
+	// Builds the subtrees of roots one after another starting at left at the given levels, all in memory: loads
+	// the id and parent reference of every node of the tree through one cursor, numbers the subtrees depth first
+	// and writes only the nodes whose lft, rgt or lvl changed through batched bulkWrite calls.
+	const rebuildSubtreesInMemory = async function (model: NestedSetModel, roots: INestedSetStructure[], levels: number[], left: number, options: INestedSetRebuildOptions): Promise<void> {
+		const session = options.session;
+		const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+
+		const byId = new Map<string, INestedSetStructure>();
+		const childrenOf = new Map<string, INestedSetStructure[]>();
+		const cursor = model.find(updateConditions({}, roots[0]), structureFields(), { lean: true, sort: { lft: 1 }, session }).cursor();
+		for (let node = await cursor.next(); node; node = await cursor.next()) {
+			const key = String(node[parentFieldName]);
+			if (!childrenOf.has(key)) {
+				childrenOf.set(key, []);
+			}
+			childrenOf.get(key).push(node);
+			byId.set(String(node[idFieldName]), node);
+		}
+		childrenOf.forEach(function (children, key) {
+			childrenOf.set(key, boundsFirst(children));
+		});
+
+		let operations = [];
+		const flush = async function () {
+			if (operations.length) {
+				await model.bulkWrite(operations, { ordered: false, session });
+				operations = [];
+			}
+		};
+
+		// depth first numbering without recursion, so deep trees do not exhaust the call stack
+		let counter = left;
+		const visited = new Set<string>();
+		for (const [index, root] of roots.entries()) {
+			const stored = byId.get(String(root[idFieldName])) || root;
+			visited.add(String(stored[idFieldName]));
+			const stack = [{ node: stored, lft: counter++, lvl: levels[index], next: 0 }];
+			while (stack.length) {
+				const top = stack[stack.length - 1];
+				const children = childrenOf.get(String(top.node[idFieldName])) || [];
+				if (top.next < children.length) {
+					const child = children[top.next++];
+					if (!visited.has(String(child[idFieldName]))) {
+						// nodes reached a second time sit in a cycle of parent references and are skipped
+						visited.add(String(child[idFieldName]));
+						stack.push({ node: child, lft: counter++, lvl: top.lvl + 1, next: 0 });
+					}
+					continue;
+				}
+
+				stack.pop();
+				const rgt = counter++;
+				if (top.node["lft"] !== top.lft || top.node["rgt"] !== rgt || top.node["lvl"] !== top.lvl) {
+					operations.push({
+						updateOne: {
+							filter: { [idFieldName]: top.node[idFieldName] },
+							update: { $set: { lft: top.lft, rgt, lvl: top.lvl } }
+						}
+					});
+					if (operations.length >= batchSize) {
+						await flush();
+					}
+				}
+				if (top.node === stored) {
+					root["lft"] = top.lft;
+					root["rgt"] = rgt;
+					root["lvl"] = top.lvl;
+				}
+			}
+		}
+		await flush();
+	};
+
+	// Rebuilds the subtrees of roots one after another, starting at left, in the mode asked for by options
+	const rebuildSubtrees = async function (model: NestedSetModel, roots: INestedSetStructure[], left: number, options: INestedSetRebuildOptions): Promise<INestedSetRebuildSummary> {
+		if (!roots.length) {
+			return { trees: 0, nodes: 0 };
+		}
+		const oldRanges = roots.map(rangeOf);
+		const levels: number[] = [];
+		for (const root of roots) {
+			levels.push(await depthOf(model, root, options.session));
+		}
+
+		if (options.mode === 'bulk') {
+			await rebuildSubtreesInMemory(model, roots, levels, left, options);
+		} else {
+			for (const [index, root] of roots.entries()) {
+				await rebuildSubtree(model, root, left, levels[index], options.session);
+				left = root["rgt"] + 1;
+			}
+		}
+
+		const last = roots[roots.length - 1];
+		await refreshPaths(model, roots[0], roots[0]["lft"], last["rgt"], options.session);
+		await recomputeAggregates(model, roots[0], roots[0]["lft"], last["rgt"], options.session);
+		await recordChanges(model, roots.map(function (root, index) {
+			return {
+				operation: 'rebuild' as NestedSetAuditOperation,
+				node: root[idFieldName],
+				group: groupingKey ? root[groupingKey] : undefined,
+				oldParent: root[parentFieldName] || null,
+				newParent: root[parentFieldName] || null,
+				oldBounds: oldRanges[index],
+				newBounds: rangeOf(root)
+			};
+		}), options, options.session);
+		roots.forEach(function (root, index) {
+			model.emit('treeRebuilt', changeEvent(root, oldRanges[index], rangeOf(root)));
+		});
+		return { trees: roots.length, nodes: (last["rgt"] - roots[0]["lft"] + 1) / 2 };
+	};
+
+	// Returns the groupingKey values of all trees. distinct leaves out the nodes without the field,
+	// so they are added as the null partition, which a query for null matches as well.
+	const findGroups = async function (model: NestedSetModel, session?: ClientSession): Promise<any[]> {
+		const groups: any[] = (await model.distinct(groupingKey).session(session || null)).filter(function (group) {
+			return group !== null && group !== undefined;
+		});
+		if (await model.findOne({ [groupingKey]: null }, { [idFieldName]: true }, { lean: true, session })) {
+			groups.push(null);
+		}
+		return groups;
+	};
+
+	// Builds the tree by populating lft, rgt and lvl using the parentIds
+	schema.static('rebuildTree', function (parent: NestedSetDocument, left: number, options?: INestedSetRebuildOptions, callback?: (err?: any, res?: INestedSetRebuildSummary) => void): Promise<INestedSetRebuildSummary> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		options = options || {};
+		const promise = withTreeLock(self, parent, function () {
+			return rebuildSubtrees(self, [parent], left, options);
+		});
+		return withCallback(promise, callback);
+	});
+
+	// Builds every tree of the collection: the roots of each groupingKey partition are numbered one after another
+	schema.static('rebuildForest', function (options?: INestedSetRebuildOptions, callback?: (err?: any, res?: INestedSetRebuildSummary) => void): Promise<INestedSetRebuildSummary> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		options = options || {};
+		const session = options.session;
+
+		const rebuild = async function (): Promise<INestedSetRebuildSummary> {
+			const groups: any[] = groupingKey ? await findGroups(self, session) : [undefined];
+			const summary: INestedSetRebuildSummary = { trees: 0, nodes: 0 };
+			for (const group of groups) {
+				const item = groupingKey ? { [groupingKey]: group } : {};
+				const result = await withTreeLock(self, item, async function () {
+					const roots: INestedSetStructure[] = await self.find(updateConditions({ [parentFieldName]: null }, item), structureFields(), { lean: true, sort: { lft: 1 }, session });
+					return rebuildSubtrees(self, boundsFirst(roots), 1, options);
+				});
+				summary.trees += result.trees;
+				summary.nodes += result.nodes;
+			}
+			return summary;
+		};
+		return withCallback(rebuild(), callback);
+	});
+
+	// Checks the nodes of one tree against each other and against their parent references
+	const findViolations = function (nodes: INestedSetStructure[], group: any): INestedSetViolation[] {
+		const violations: INestedSetViolation[] = [];
+		const report = function (type: NestedSetViolationType, node: any, message: string, related?: any) {
+			const violation: INestedSetViolation = { type, nodeId: node && node[idFieldName], message };
+			if (related) {
+				violation.relatedId = related[idFieldName];
+			}
+			if (groupingKey) {
+				violation.group = group;
+			}
+			violations.push(violation);
+		};
+
+		const byId = new Map<string, INestedSetStructure>();
+		nodes.forEach(function (node) {
+			byId.set(String(node[idFieldName]), node);
+		});
+
+		// bounds of every single node and their uniqueness
+		const bounds = new Map<number, NestedSetDocument>();
+		const built = nodes.filter(function (node) {
+			if (typeof node["lft"] !== 'number' || typeof node["rgt"] !== 'number') {
+				report('missingBounds', node, 'node has no lft or rgt');
+				return false;
+			}
+			if (node["lft"] >= node["rgt"]) {
+				report('invalidBounds', node, 'lft ' + node["lft"] + ' is not lower than rgt ' + node["rgt"]);
+			}
+			[node["lft"], node["rgt"]].forEach(function (bound) {
+				if (bounds.has(bound)) {
+					report('duplicateBound', node, 'bound ' + bound + ' is used more than once', bounds.get(bound));
+				} else {
+					bounds.set(bound, node);
+				}
+			});
+			return true;
+		});
+
+		// intervals have to be either nested or disjoint
+		const stack: INestedSetStructure[] = [];
+		built.slice().sort(function (a, b) { return a["lft"] - b["lft"]; }).forEach(function (node) {
+			while (stack.length && stack[stack.length - 1]["rgt"] < node["lft"]) {
+				stack.pop();
+			}
+			const container = stack[stack.length - 1];
+			if (container && node["rgt"] > container["rgt"] && node["lft"] !== container["lft"]) {
+				report('overlap', node, 'interval ' + node["lft"] + '-' + node["rgt"] + ' overlaps ' + container["lft"] + '-' + container["rgt"], container);
+			}
+			stack.push(node);
+		});
+
+		// the numbering has to be contiguous
+		const sortedBounds = Array.from(bounds.keys()).sort(function (a, b) { return a - b; });
+		for (let i = 1; i < sortedBounds.length; i++) {
+			if (sortedBounds[i] !== sortedBounds[i - 1] + 1) {
+				report('gap', bounds.get(sortedBounds[i]), 'numbering jumps from ' + sortedBounds[i - 1] + ' to ' + sortedBounds[i]);
+			}
+		}
+
+		// parent references: orphans, cycles and the real depth of every node. Nodes in a cycle,
+		// below an orphan or leading into a cycle have no depth that could be compared with lvl.
+		const depths = new Map<string, number>();
+		const undetermined = new Set<string>();
+		nodes.forEach(function (node) {
+			const path: INestedSetStructure[] = [];
+			const onPath = new Set<string>();
+			let current = node;
+			let depth: number;
+			while (current) {
+				const id = String(current[idFieldName]);
+				if (depths.has(id)) {
+					depth = depths.get(id);
+					break;
+				}
+				if (undetermined.has(id)) {
+					break;
+				}
+				if (onPath.has(id)) {
+					// everything on the path from the first visit of current onwards forms the cycle
+					path.slice(path.indexOf(current)).forEach(function (member) {
+						report('cycle', member, 'parent references form a cycle', current);
+					});
+					break;
+				}
+				path.push(current);
+				onPath.add(id);
+				if (!current[parentFieldName]) {
+					depth = -1;
+					break;
+				}
+				const parentNode = byId.get(String(current[parentFieldName]));
+				if (!parentNode) {
+					report('orphan', current, 'parent ' + current[parentFieldName] + ' does not exist');
+					break;
+				}
+				current = parentNode;
+			}
+
+			// walk back down the path and hand out the depths
+			for (let i = path.length - 1; i >= 0; i--) {
+				if (depth === undefined) {
+					undetermined.add(String(path[i][idFieldName]));
+				} else {
+					depth++;
+					depths.set(String(path[i][idFieldName]), depth);
+				}
+			}
+		});
+
+		nodes.forEach(function (node) {
+			const id = String(node[idFieldName]);
+			if (!depths.has(id)) {
+				return;
+			}
+			if ((node["lvl"] || 0) !== depths.get(id)) {
+				report('levelMismatch', node, 'lvl is ' + node["lvl"] + ' but the node is at depth ' + depths.get(id));
+			}
+			const parentNode = node[parentFieldName] && byId.get(String(node[parentFieldName]));
+			if (parentNode && typeof node["lft"] === 'number' && typeof parentNode["lft"] === 'number'
+				&& !(parentNode["lft"] < node["lft"] && node["rgt"] < parentNode["rgt"])) {
+				report('outsideParent', node, 'interval ' + node["lft"] + '-' + node["rgt"] + ' is not inside its parent ' + parentNode["lft"] + '-' + parentNode["rgt"], parentNode);
+			}
+		});
+
+		return violations;
+	};
+
+	// Verifies lft, rgt and lvl of every tree (or only the one of options.group) against the parent references
+	schema.static('verifyTree', function (options?: INestedSetVerifyOptions, callback?: (err?: any, res?: INestedSetVerifyReport) => void): Promise<INestedSetVerifyReport> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		options = options || {};
+		const session = options.session;
+
+		const verify = async function (): Promise<INestedSetVerifyReport> {
+			let groups: any[] = [undefined];
+			if (groupingKey) {
+				groups = options.group !== undefined ? [options.group] : await findGroups(self, session);
+			}
+
+			const result: INestedSetVerifyReport = { valid: true, nodeCount: 0, violations: [] };
+			for (const group of groups) {
+				const conditions = groupingKey ? { [groupingKey]: group } : {};
+				const nodes: INestedSetStructure[] = await self.find(conditions, structureFields(), { lean: true, session });
+				result.nodeCount += nodes.length;
+				result.violations = result.violations.concat(findViolations(nodes, group));
+			}
+			result.valid = result.violations.length === 0;
+			return result;
+		};
+		return withCallback(verify(), callback);
+	});
+
+	// Loads the subtree of root in one query sorted by lft and nests every node into the children
+	// of the closest node before it whose interval still contains it
+	const buildTree = async function (model: NestedSetModel, root: NestedSetDocument, options: INestedSetTreeOptions): Promise<NestedSetTreeNode> {
+		const conditions = depthConditions(updateConditions({ lft: { $gte: root["lft"] }, rgt: { $lte: root["rgt"] } }, root), root, { maxDepth: options.maxDepth });
+		if (!options.includeArchived) {
+			// the root itself is kept, so an archived subtree can still be looked at from its top
+			conditions["$or"] = [{ archivedAt: null }, { lft: root["lft"] }];
+		}
+
+		let fields = options.fields || null;
+		if (fields && Object.keys(fields).some(function (key) { return !!fields[key]; })) {
+			// an inclusive projection still needs the bounds to nest the nodes
+			fields = Object.assign({}, fields, { lft: true, rgt: true });
+		}
+
+		const nodes: INestedSetStructure[] = await model.find(conditions, fields, { lean: true, sort: { lft: 1 }, session: options.session });
+
+		let tree: NestedSetTreeNode = null;
+		const stack: { rgt: number, node: NestedSetTreeNode }[] = [];
+		nodes.forEach(function (node) {
+			while (stack.length && stack[stack.length - 1].rgt < node["lft"]) {
+				stack.pop();
+			}
+			const treeNode = Object.assign(options.transform ? options.transform(node) : node, { children: [] });
+			if (stack.length) {
+				stack[stack.length - 1].node.children.push(treeNode);
+			} else if (!tree) {
+				tree = treeNode;
+			}
+			stack.push({ rgt: node["rgt"], node: treeNode });
+		});
+		return tree;
+	};
+
+	// Returns the subtree of the node with rootId as nested objects
+	schema.static('getTree', function (rootId: any, options?: INestedSetTreeOptions, callback?: NestedSetCallback<NestedSetTreeNode>): Promise<NestedSetTreeNode> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		options = options || {};
+		const promise = findStructure(self, rootId, options.session).then(function (root) {
+			return root ? buildTree(self, root, options) : null;
+		});
+		return withCallback(promise, callback);
+	});
+
+	// Returns the subtree of this node as nested objects
+	schema.method('toTree', function (options?: INestedSetTreeOptions, callback?: NestedSetCallback<NestedSetTreeNode>): Promise<NestedSetTreeNode> {
+		const self: NestedSetDocument = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		options = applySession(options || {}, self);
+		return withCallback(buildTree(self.constructor, self, options), callback);
+	});
+
+	// Returns the ancestors and this node ordered from the root down, together with their field values joined by separator
+	schema.method('breadcrumbs', function (options?: INestedSetBreadcrumbOptions, callback?: NestedSetCallback<INestedSetBreadcrumbs>): Promise<INestedSetBreadcrumbs> {
+		const self: NestedSetDocument = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		options = options || {};
+		const field = options.field || idFieldName;
+		const separator = options.separator === undefined ? DEFAULT_BREADCRUMB_SEPARATOR : options.separator;
+		const conditions = updateConditions({ lft: { $lte: self["lft"] }, rgt: { $gte: self["rgt"] } }, self);
+		const promise = self.constructor.find(conditions, null, applySession({ sort: { lft: 1 }, session: options.session }, self)).exec().then(function (nodes) {
+			return {
+				nodes,
+				text: nodes.map(function (node) {
+					return String(node[field]);
+				}).join(separator)
+			};
+		});
+		return withCallback(promise, callback);
+	});
+
+	// Inserts nested { ..., children: [...] } objects as new nodes. All ids, parent references and bounds
+	// are worked out up front, so the tree only needs a single gap at the insertion point and one insertMany.
+	const importNodes = async function (model: NestedSetModel, data: any | any[], options: INestedSetImportOptions): Promise<NestedSetDocument[]> {
+		const session = options.session;
+		const roots: any[] = Array.isArray(data) ? data : [data];
+		const parentId = options.parent && options.parent[idFieldName] !== undefined ? options.parent[idFieldName] : options.parent;
+
+		let reference: NestedSetDocument = null;
+		if (parentId) {
+			reference = await findStructure(model, parentId, session);
+			if (!reference) {
+				throw new Error(model.modelName + ' not found');
+			}
+			if (!reference["lft"] || !reference["rgt"]) {
+				throw new Error('tree is not built for ' + model.modelName + ' nodes');
+			}
+		}
+
+		// new trees are numbered behind the last tree of their partition, so they all have to share one
+		const groupOf = function (item: any) {
+			const value = groupingKey ? (reference || item || {})[groupingKey] : undefined;
+			return value === undefined ? null : value;
+		};
+		if (groupingKey && !reference && roots.some(function (root) {
+			return String(groupOf(root)) !== String(groupOf(roots[0]));
+		})) {
+			throw new Error('Cannot import ' + model.modelName + ' trees of different groups at once');
+		}
+		const group = groupOf(roots[0]);
+		const partition = groupingKey ? { [groupingKey]: group } : {};
+
+		return withTreeLock(model, partition, async function () {
+			let position: number;
+			let level = 0;
+			if (reference) {
+				reference = await findStructure(model, parentId, session);
+				position = options.position === 'prepend' ? reference["lft"] + 1 : reference["rgt"];
+				level = (reference["lvl"] || 0) + 1;
+			} else {
+				position = await findMaxRgt(model, partition, session) + 1;
+			}
+
+			// the chain of nodes above the imported ones, its last entry is their parent
+			let chain: any[] = reference ? [reference] : [];
+			if (reference && pathOptions) {
+				chain = await model.find(
+					updateConditions({ lft: { $lte: reference["lft"] }, rgt: { $gte: reference["rgt"] } }, reference),
+					pathFields(),
+					{ lean: true, sort: { lft: 1 }, session }
+				);
+			}
+
+			// number the nodes depth first, the way rebuildTree would after inserting them one by one
+			const documents: NestedSetDocument[] = [];
+			let counter = position;
+			// returns the $inc the imported subtree adds to the cached aggregates of its ancestors
+			const visit = function (item: any, ancestors: any[], lvl: number): object {
+				const fields = Object.assign({}, item);
+				delete fields.children;
+				const node: NestedSetDocument = new model(fields);
+				if (node[idFieldName] === undefined || node[idFieldName] === null) {
+					throw new Error('imported ' + model.modelName + ' nodes need a value for ' + idFieldName);
+				}
+				node[parentFieldName] = ancestors.length ? ancestors[ancestors.length - 1][idFieldName] : null;
+				node["lvl"] = lvl;
+				node["lft"] = counter++;
+				if (groupingKey) {
+					// the whole import lands in the partition of its parent or of its first root
+					node[groupingKey] = group;
+				}
+				if (reference && reference["archivedAt"]) {
+					node["archivedAt"] = reference["archivedAt"];
+				}
+				if (pathOptions) {
+					node[pathOptions.field] = pathOf(ancestors, node);
+				}
+				documents.push(node);
+				initAggregates(node);
+				(item.children || []).forEach(function (child) {
+					const increments = visit(child, ancestors.concat([node]), lvl + 1);
+					aggregateNames.forEach(function (field) {
+						node[field] += increments[field];
+					});
+				});
+				node["rgt"] = counter++;
+				return aggregateIncrements(node, 1);
+			};
+			const increments = {};
+			roots.forEach(function (root) {
+				const added = visit(root, chain, level);
+				aggregateNames.forEach(function (field) {
+					increments[field] = (increments[field] || 0) + added[field];
+				});
+			});
+
+			if (!documents.length) {
+				return [];
+			}
+			await openGap(model, reference || documents[0], position, documents.length * 2, session);
+			await adjustAncestors(model, reference || documents[0], position, counter - 1, increments, session);
+			const inserted = await model.insertMany(documents, { session });
+			await recordChanges(model, inserted.map(function (node) {
+				return {
+					operation: 'insert' as NestedSetAuditOperation,
+					node: node[idFieldName],
+					group: groupingKey ? node[groupingKey] : undefined,
+					oldParent: null,
+					newParent: node[parentFieldName] || null,
+					oldBounds: null,
+					newBounds: rangeOf(node)
+				};
+			}), options, session);
+			inserted.forEach(function (node) {
+				model.emit('nodeInserted', changeEvent(node, null, rangeOf(node)));
+			});
+			return inserted;
+		});
+	};
+
+	// Inserts nested { ..., children: [...] } objects below options.parent, or as new trees behind the last one
+	schema.static('importTree', function (data: any | any[], options?: INestedSetImportOptions, callback?: NestedSetCallback<NestedSetDocument[]>): Promise<NestedSetDocument[]> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		return withCallback(importNodes(self, data, options || {}), callback);
+	});
+
+	// The $group accumulator for a rollup operator
+	const rollupAccumulator = function (options: INestedSetRollupOptions): object {
+		if (options.op === 'count') {
+			return { $sum: 1 };
+		}
+		if (['sum', 'avg', 'min', 'max'].indexOf(options.op) === -1) {
+			throw new Error('unknown rollup operator ' + options.op);
+		}
+		if (!options.field) {
+			throw new Error('rollup with ' + options.op + ' needs a field');
+		}
+		return { ['$' + options.op]: '$' + options.field };
+	};
+
+	// Aggregates options.field over the subtree of root (root included) in a single pipeline: one total,
+	// or with perNode the value of every node's own subtree, joined by lft/rgt containment
+	const rollupSubtree = async function (model: NestedSetModel, root: any, options: INestedSetRollupOptions): Promise<number | INestedSetRollupValue[]> {
+		const accumulator = rollupAccumulator(options);
+		const match = updateConditions({ lft: { $gte: root["lft"] }, rgt: { $lte: root["rgt"] } }, root);
+
+		if (!options.perNode) {
+			const result = await model.aggregate([
+				{ $match: match },
+				{ $group: { _id: null, value: accumulator } }
+			]).session(options.session || null).exec();
+			return result.length ? result[0].value : (options.op === 'count' ? 0 : null);
+		}
+
+		const containment: any[] = [{ $gte: ['$lft', '$$lft'] }, { $lte: ['$rgt', '$$rgt'] }];
+		const variables: any = { lft: '$lft', rgt: '$rgt' };
+		if (groupingKey) {
+			containment.push({ $eq: ['$' + groupingKey, '$$group'] });
+			variables.group = '$' + groupingKey;
+		}
+		return model.aggregate([
+			{ $match: match },
+			{ $sort: { lft: 1 } },
+			{
+				$lookup: {
+					from: model.collection.name,
+					let: variables,
+					// the plain match on the subtree of root can use the lft/rgt index, $expr alone cannot
+					pipeline: [
+						{ $match: match },
+						{ $match: { $expr: { $and: containment } } },
+						{ $group: { _id: null, value: accumulator } }
+					],
+					as: 'rollup'
+				}
+			},
+			{
+				$project: {
+					_id: 0,
+					id: '$' + idFieldName,
+					lft: 1,
+					rgt: 1,
+					lvl: 1,
+					value: { $arrayElemAt: ['$rollup.value', 0] }
+				}
+			}
+		]).session(options.session || null).exec();
+	};
+
+	// Rolls up options.field over the subtree of rootOrFilter, which is a node, its id or a filter matching it
+	schema.static('rollup', function (rootOrFilter: any, options: INestedSetRollupOptions, callback?: NestedSetCallback<number | INestedSetRollupValue[]>): Promise<number | INestedSetRollupValue[]> {
+		const self: NestedSetModel = this;
+		const findRoot = async function () {
+			if (rootOrFilter && typeof rootOrFilter["lft"] === 'number' && typeof rootOrFilter["rgt"] === 'number') {
+				return rootOrFilter;
+			}
+			const filter = rootOrFilter && typeof rootOrFilter === 'object' && !(rootOrFilter instanceof Types.ObjectId)
+				? rootOrFilter
+				: { [idFieldName]: rootOrFilter };
+			return self.findOne(filter, structureFields(), { lean: true, session: options.session });
+		};
+		const promise = findRoot().then(function (root) {
+			if (!root) {
+				throw new Error(self.modelName + ' rollup root not found');
+			}
+			return rollupSubtree(self, root, options);
+		});
+		return withCallback(promise, callback);
+	});
+
+	// Resolves the node reached by following path from a root, one field value per level, e.g. ['michael', 'jim', 'dwight'].
+	// All candidates are loaded with a single query and matched by containment in memory.
+	schema.static('findByPath', function (path: any[], options?: INestedSetFindByPathOptions, callback?: NestedSetCallback<NestedSetDocument | null>): Promise<NestedSetDocument | null> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		options = options || {};
+		const field = options.field || idFieldName;
+
+		const conditions = groupConditions({ [field]: { $in: path }, lvl: { $lt: path.length } }, options.group);
+		const promise = (path.length ? self.find(conditions, null, { sort: { lft: 1 }, session: options.session }).exec() : Promise.resolve([])).then(function (candidates) {
+			// several nodes may share a value, so every branch which matches so far is followed
+			const resolve = function (parent: NestedSetDocument | null, depth: number): NestedSetDocument | null {
+				for (const node of candidates) {
+					const matches = (node["lvl"] || 0) === depth && String(node[field]) === String(path[depth]) && (!parent || (
+						parent["lft"] < node["lft"] && node["rgt"] < parent["rgt"] &&
+						(!groupingKey || String(parent[groupingKey]) === String(node[groupingKey]))
+					));
+					if (matches) {
+						const found = depth === path.length - 1 ? node : resolve(node, depth + 1);
+						if (found) {
+							return found;
+						}
+					}
+				}
+				return null;
+			};
+			return path.length ? resolve(null, 0) : null;
+		});
+		return withCallback(promise, callback);
+	});
+
+	// Matches the nodes without children, comparing rgt with lft + 1 needs $expr
+	const leafConditions = function () {
+		return { $expr: { $eq: ['$rgt', { $add: ['$lft', 1] }] } };
+	};
+
+	// Query helpers, e.g. User.find({ active: true }).leaves().atLevel(2)
+	schema.query.roots = function () {
+		return this.where({ [parentFieldName]: null });
+	};
+
+	schema.query.leaves = function () {
+		return this.where(leafConditions());
+	};
+
+	schema.query.atLevel = function (level: number) {
+		return this.where({ lvl: level });
+	};
+
+	schema.query.descendantsOf = function (node: INestedSetFields) {
+		return this.where(updateConditions({ lft: { $gt: node["lft"] }, rgt: { $lt: node["rgt"] } }, node));
+	};
+
+	schema.query.ancestorsOf = function (node: INestedSetFields) {
+		return this.where(updateConditions({ lft: { $lt: node["lft"] }, rgt: { $gt: node["rgt"] } }, node));
+	};
+
+	// Limits conditions to the tree with the given groupingKey value, if one is given
+	const groupConditions = function (conditions: object, group?: any) {
+		if (groupingKey && group !== undefined) {
+			conditions[groupingKey] = group;
+		}
+		return conditions;
+	};
+
+	// Returns a query for the root nodes, optionally of the tree with the groupingKey value group
+	schema.static('roots', function (group?: any) {
+		const self: NestedSetModel = this;
+		return self.find(groupConditions({ [parentFieldName]: null }, group));
+	});
+
+	// Returns a query for the nodes without children
+	schema.static('leaves', function (group?: any) {
+		const self: NestedSetModel = this;
+		return self.find(groupConditions(leafConditions(), group));
+	});
+
+	// Returns a query for the nodes at the given level
+	schema.static('atLevel', function (level: number, group?: any) {
+		const self: NestedSetModel = this;
+		return self.find(groupConditions({ lvl: level }, group));
+	});
+
+	// Returns a query for the nodes whose materialized path starts with prefix: a path string
+	// like /michael/jim or an array of ancestor ids
+	schema.static('findByPathPrefix', function (prefix: string | any[], filters?: any, fields?: any, options?: any) {
+		const self: NestedSetModel = this;
+		if (!pathOptions) {
+			throw new Error('the path option is not set for ' + self.modelName);
+		}
+
+		const conditions = Object.assign({}, filters);
+		if (Array.isArray(prefix)) {
+			prefix.forEach(function (id, index) {
+				conditions[pathOptions.field + '.' + index] = id;
+			});
+		} else {
+			conditions[pathOptions.field] = { $regex: '^' + prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') };
+		}
+		return self.find(conditions, fields, options);
+	});
+
+	// Moves the node with nodeId and its descendants under the node with newParentId
+	schema.static('moveNode', function (nodeId: any, newParentId: any, options?: INestedSetOperationOptions, callback?: (err?: any, res?: any) => void): Promise<NestedSetDocument> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		const session = (options || {}).session;
+		const promise = self.findOne({ [idFieldName]: nodeId }, null, { session }).then(function (node) {
+			if (!node) {
+				throw new Error(self.modelName + ' not found');
+			}
+			return withTreeLock(self, node, function () {
+				return insertNode(self, node, newParentId, 'append', session, { actor: (options || {}).actor });
+			});
+		});
+		return withCallback(promise, callback);
+	});
+
+	// Loads the stored position of a node given as document or id
+	const resolveStructure = async function (model: NestedSetModel, nodeOrId: any, session?: ClientSession): Promise<INestedSetStructure> {
+		const id = nodeOrId && nodeOrId[idFieldName] !== undefined ? nodeOrId[idFieldName] : nodeOrId;
+		const node = await findStructure(model, id, session);
+		if (!node) {
+			throw new Error(model.modelName + ' not found');
+		}
+		return node;
+	};
+
+	// Finds the deepest node whose interval contains the intervals of both a and b, null when they are in different trees
+	const findCommonAncestor = async function (model: NestedSetModel, a: any, b: any, fields: any, session?: ClientSession): Promise<NestedSetDocument | null> {
+		if (groupingKey && String(a[groupingKey]) !== String(b[groupingKey])) {
+			return null;
+		}
+		const conditions = updateConditions({
+			lft: { $lte: Math.min(a["lft"], b["lft"]) },
+			rgt: { $gte: Math.max(a["rgt"], b["rgt"]) }
+		}, a);
+		return model.findOne(conditions, fields, { sort: { lft: -1 }, session });
+	};
+
+	// Returns the deepest common ancestor of the nodes a and b (documents or ids), a node counts as its own ancestor
+	schema.static('commonAncestor', function (a: any, b: any, options?: INestedSetOperationOptions, callback?: NestedSetCallback<NestedSetDocument | null>): Promise<NestedSetDocument | null> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		const session = (options || {}).session;
+		const promise = Promise.all([resolveStructure(self, a, session), resolveStructure(self, b, session)]).then(function (nodes) {
+			return findCommonAncestor(self, nodes[0], nodes[1], null, session);
+		});
+		return withCallback(promise, callback);
+	});
 
-	schema.add({ lft: { type: Number, min: 0 } });
-	schema.add({ rgt: { type: Number, min: 0 } });
+	// Returns the nodes on the way from a up to the common ancestor and down to b, both ends included
+	schema.static('pathBetween', function (a: any, b: any, options?: INestedSetOperationOptions, callback?: NestedSetCallback<NestedSetDocument[]>): Promise<NestedSetDocument[]> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		const session = (options || {}).session;
+		const promise = Promise.all([resolveStructure(self, a, session), resolveStructure(self, b, session)]).then(async function (nodes) {
+			const from = nodes[0];
+			const to = nodes[1];
+			const ancestor = await findCommonAncestor(self, from, to, structureFields(), session);
+			if (!ancestor) {
+				return [];
+			}
 
-	// Allows level computing while editing the graph
-	schema.add({ lvl: { type: Number, min: 0, default: 0 } });
-	schema.index({ lvl: 1 });
+			// everything between the common ancestor and either end in a single range query
+			const chain = await self.find(updateConditions({
+				lft: { $gte: ancestor["lft"] },
+				$or: [
+					{ lft: { $lte: from["lft"] }, rgt: { $gte: from["rgt"] } },
+					{ lft: { $lte: to["lft"] }, rgt: { $gte: to["rgt"] } }
+				]
+			}, ancestor), null, { sort: { lft: 1 }, session });
 
-	schema.add({ [parentFieldName]: { type: parentFieldType } });
+			const up = chain.filter(function (node) {
+				return node["lft"] <= from["lft"] && node["rgt"] >= from["rgt"];
+			}).reverse();
+			const down = chain.filter(function (node) {
+				return node["lft"] <= to["lft"] && node["rgt"] >= to["rgt"] && node["lft"] > ancestor["lft"];
+			});
+			return up.concat(down);
+		});
+		return withCallback(promise, callback);
+	});
 
-	schema.index({ [parentFieldName]: 1 });
-	schema.index({ lft: 1, rgt: 1 });
-	schema.index({ rgt: 1 });
+	// Returns the number of edges between the nodes a and b, null when they are in different trees
+	schema.static('distance', function (a: any, b: any, options?: INestedSetOperationOptions, callback?: NestedSetCallback<number | null>): Promise<number | null> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		const session = (options || {}).session;
+		const promise = Promise.all([resolveStructure(self, a, session), resolveStructure(self, b, session)]).then(async function (nodes) {
+			const ancestor = await findCommonAncestor(self, nodes[0], nodes[1], structureFields(), session);
+			if (!ancestor) {
+				return null;
+			}
+			return (nodes[0]["lvl"] || 0) + (nodes[1]["lvl"] || 0) - 2 * (ancestor["lvl"] || 0);
+		});
+		return withCallback(promise, callback);
+	});
 
-	const updateConditions = function (conditions, item) {
-		if (groupingKey) {
-			conditions[groupingKey] = item[groupingKey];
+	// Puts node back right after previousSibling, or else as the first child of parentId,
+	// or as the first root if it had no parent
+	const restorePosition = async function (model: NestedSetModel, node: NestedSetDocument, parentId: any, previousSibling: any, session?: ClientSession, context?: IAuditContext): Promise<NestedSetDocument> {
+		if (previousSibling) {
+			const sibling = await findStructure(model, previousSibling, session);
+			if (sibling && String(sibling[parentFieldName] || '') === String(parentId || '') && String(sibling[idFieldName]) !== String(node[idFieldName])) {
+				return insertNode(model, node, previousSibling, 'after', session, context);
+			}
 		}
-		return conditions;
+		if (parentId) {
+			return insertNode(model, node, parentId, 'prepend', session, context);
+		}
+
+		const first = await model.findOne(updateConditions({ [parentFieldName]: null }, node), { [idFieldName]: true }, { lean: true, sort: { lft: 1 }, session });
+		if (first && String(first[idFieldName]) !== String(node[idFieldName])) {
+			return insertNode(model, node, first[idFieldName], 'before', session, context);
+		}
+		if (node.isNew) {
+			// the tree is empty, so the node becomes its only root
+			node["lft"] = 1;
+			node["rgt"] = 2;
+			node["lvl"] = 0;
+			node[parentFieldName] = null;
+			await computePath(model, node, session);
+			initAggregates(node);
+			return saveNewNode(node, session, context);
+		}
+		return node;
 	};
 
-	schema.pre('save', function (next): void {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this as any;
-		if (self[parentFieldName]) {
-			self.parent(function (err, parentNode) {
-				if (!err && parentNode && parentNode["lft"] && parentNode["rgt"]) {
-					//Update level based on parentNode level
-					self["lvl"] = parentNode["lvl"] + 1
-					// find siblings and check if they have lft and rgt values set
-					self.siblings(function (err, nodes) {
-						if (nodes.every(function (node) { return node["lft"] && node["rgt"]; })) {
-							let maxRgt = 0;
-							nodes.forEach(function (node) {
-								if (node["rgt"] > maxRgt) {
-									maxRgt = node["rgt"];
-								}
-							});
-							if (nodes.length === 0) {
-								// if it is a leaf node, the maxRgt should be the lft value of the parent
-								maxRgt = parentNode["lft"];
-							}
-							let conditions = updateConditions({ lft: { $gt: maxRgt } }, self);
-							self.constructor.updateMany(conditions, { $inc: { lft: 2 } }, function (err, updatedCount) {
-								conditions = updateConditions({ rgt: { $gt: maxRgt } }, self);
-								self.constructor.updateMany(conditions, { $inc: { rgt: 2 } }, function (err, updatedCount2) {
-									self["lft"] = maxRgt + 1;
-									self["rgt"] = maxRgt + 2;
-									next();
-								});
-							});
-						} else {
-							// the siblings do not have lft and rgt set. This means tree was not build.
-							// warn on console and move on.
-							// console.log('WARNING: tree is not built for ' + modelName + ' nodes. Siblings does not have lft/rgt');
-							next();
-						}
-					});
+	// Undoes the change recorded in entry: moves the node back, removes an inserted node
+	// or recreates a removed node with the descendants removed along with it
+	const revertEntry = async function (model: NestedSetModel, entry: INestedSetAuditEntry, actor: any, session?: ClientSession): Promise<void> {
+		const context: IAuditContext = { actor, revertOf: entry._id };
+		if (entry.operation === 'rebuild') {
+			throw new Error(model.modelName + ' rebuilds cannot be reverted, they do not change any parent');
+		}
+
+		if (entry.operation === 'insert') {
+			const inserted = await model.findOne({ [idFieldName]: entry.node }, null, { session });
+			if (!inserted) {
+				throw new Error(model.modelName + ' not found');
+			}
+			await removeWithContext(inserted, 'restrict', context);
+			return;
+		}
+
+		await withTreeLock(model, groupingKey ? { [groupingKey]: entry.group } : {}, async function () {
+			if (entry.operation === 'move') {
+				const moved = await model.findOne({ [idFieldName]: entry.node }, null, { session });
+				if (!moved) {
+					throw new Error(model.modelName + ' not found');
+				}
+				await restorePosition(model, moved, entry.oldParent, entry.previousSibling, session, context);
+				return;
+			}
+
+			const documents = entry.documents || [];
+			for (let i = 0; i < documents.length; i++) {
+				const fields = Object.assign({}, documents[i]);
+				delete fields.lft;
+				delete fields.rgt;
+				delete fields.lvl;
+				const node: NestedSetDocument = new model(fields);
+				if (i === 0) {
+					await restorePosition(model, node, entry.oldParent, entry.previousSibling, session, context);
 				} else {
-					// parent node does not have lft and rgt set. This means tree was not built.
-					// warn on console and move on.
-					// console.log('WARNING: tree is not built for ' + modelName + ' nodes. Parent does not have lft/rgt');
-					next();
+					await insertNode(model, node, fields[parentFieldName], 'append', session, context);
 				}
-			});
-		} else {
-			// no parentId is set, so ignore
-			next();
+			}
+
+			// the children which were handed over to the parent go back to the restored node
+			for (const childId of entry.children || []) {
+				const child = await model.findOne({ [idFieldName]: childId }, null, { session });
+				if (child && String(child[parentFieldName] || '') === String(entry.oldParent || '')) {
+					await insertNode(model, child, entry.node, 'append', session, context);
+				}
+			}
+		});
+	};
+
+	// Reverts the change with the given audit entry id and marks the entry as reverted
+	schema.static('revertChange', function (entryId: any, options?: INestedSetOperationOptions, callback?: NestedSetCallback<INestedSetAuditEntry>): Promise<INestedSetAuditEntry> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
 		}
+		options = options || {};
+		const session = options.session;
+		const promise = (async function () {
+			if (!audit) {
+				throw new Error('the audit option is not set for ' + self.modelName);
+			}
+			const entries = auditCollection(self);
+			const entry: INestedSetAuditEntry = await entries.findOne({ _id: new Types.ObjectId(String(entryId)), model: self.collection.name }, { session });
+			if (!entry) {
+				throw new Error(self.modelName + ' change ' + entryId + ' not found');
+			}
+			if (entry.reverted) {
+				throw new Error(self.modelName + ' change ' + entryId + ' was already reverted');
+			}
+
+			await revertEntry(self, entry, options.actor, session);
+			entry.reverted = true;
+			entry.revertedAt = new Date();
+			await entries.updateOne({ _id: entry._id }, { $set: { reverted: true, revertedAt: entry.revertedAt } }, { session });
+			return entry;
+		})();
+		return withCallback(promise, callback);
 	});
 
-	schema.pre('remove', function (next) {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this as any;
-		if (self[parentFieldName]) {
-			self.parent(function (err, parentNode) {
-				if (!err && parentNode && parentNode["lft"] && parentNode["rgt"]) {
-
-					// find siblings and check if they have lft and rgt values set
-					self.siblings(function (err, nodes) {
-						if (nodes.every(function (node) { return node["lft"] && node["rgt"]; })) {
-							let maxRgt = 0;
-							nodes.forEach(function (node) {
-								if (node["rgt"] > maxRgt) {
-									maxRgt = node["rgt"];
-								}
-							});
-							if (nodes.length === 0) {
-								// if it is a leaf node, the maxRgt should be the lft value of the parent
-								maxRgt = parentNode["lft"];
-							}
-							let conditions = updateConditions({ lft: { $gt: maxRgt } }, self);
-							self.constructor.updateMany(conditions, { $inc: { lft: -2 } }, function (err, updatedCount) {
-								conditions = updateConditions({ rgt: { $gt: maxRgt } }, self);
-								self.constructor.updateMany(conditions, { $inc: { rgt: -2 } }, function (err, updatedCount2) {
-									next();
-								});
-							});
-						} else {
-							// the siblings do not have lft and rgt set. This means tree was not build.
-							// warn on console and move on.
-							// console.log('WARNING: tree is not built for ' + modelName + ' nodes. Siblings does not have lft/rgt');
-							next();
-						}
-					});
-				} else {
-					// parent node does not have lft and rgt set. This means tree was not built.
-					// warn on console and move on.
-					// console.log('WARNING: tree is not built for ' + modelName + ' nodes. Parent does not have lft/rgt');
-					next();
-				}
-			});
-		} else {
-			// no parentId is set, so ignore
-			next();
+	// Reverts the latest change which is neither reverted nor a revert itself, rebuilds are skipped
+	schema.static('undoLastChange', function (options?: INestedSetUndoOptions, callback?: NestedSetCallback<INestedSetAuditEntry | null>): Promise<INestedSetAuditEntry | null> {
+		const self: NestedSetModel = this;
+		if ('function' === typeof options) {
+			callback = options;
+			options = {};
 		}
+		options = options || {};
+		const promise = (async function () {
+			if (!audit) {
+				throw new Error('the audit option is not set for ' + self.modelName);
+			}
+			const conditions: any = { model: self.collection.name, operation: { $ne: 'rebuild' }, reverted: false, revertOf: null };
+			if (groupingKey && options.group !== undefined) {
+				conditions.group = options.group;
+			}
+			const entry = await auditCollection(self).findOne(conditions, { sort: { timestamp: -1, _id: -1 }, session: options.session });
+			return entry ? self.revertChange(entry._id, options) : null;
+		})();
+		return withCallback(promise, callback);
 	});
 
-	// Builds the tree by populating lft and rgt using the parentIds
-	schema.static('rebuildTree', async function (parent: INestedSetDocument, left: number, callback?: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
-		parent["lft"] = left;
-		parent["rgt"] = left + 1;
+	// Registers a hook which runs before every subtree move and can veto it by returning false
+	schema.static('beforeMove', function (hook: NestedSetMoveHook): void {
+		beforeMoveHooks.push(hook);
+	});
 
-		const children = await self.find({ [parentFieldName]: parent[idFieldName] }, { [parentFieldName]: true, rgt: true, lft: true }, { lean: true });
+	// Registers a hook which runs after every subtree move, its return value is ignored
+	schema.static('afterMove', function (hook: NestedSetMoveHook): void {
+		afterMoveHooks.push(hook);
+	});
 
-		if (!children) {
-			if (callback) {
-				return callback(new Error(self.constructor.modelName + ' not found')) as any;
-			} else {
-				throw new Error(self.constructor.modelName + ' not found');
-			}
+	// Removes node through its remove middleware with strategy and context, which are only handed
+	// to the middleware for the duration of this call
+	const removeWithContext = async function (node: NestedSetDocument, strategy: RemoveStrategy, context: IAuditContext): Promise<NestedSetDocument> {
+		node.$locals.removeStrategy = strategy;
+		node.$locals.auditContext = context;
+		try {
+			return await node.remove();
+		} finally {
+			delete node.$locals.removeStrategy;
+			delete node.$locals.auditContext;
 		}
+	};
 
-		return new Promise(async (resolve, reject) => {
-
-			if (children.length > 0) {
-				forEachSeries(children, (item: INestedSetDocument, cb) => {
-					self.rebuildTree(item, parent["rgt"], function () {
-						parent["rgt"] = item["rgt"] + 1;
-						self.updateOne({ [idFieldName]: parent[idFieldName] }, { lft: parent["lft"], rgt: parent["rgt"] }, cb);
-					});
-				}, function () {
-					if (callback) {
-						callback();
-					}
-					resolve();
-				});
-			} else {
-				await self.updateOne({ [idFieldName]: parent[idFieldName] }, { lft: parent["lft"], rgt: parent["rgt"] });
-				if (callback) {
-					callback();
-				}
-				resolve();
+	// Registers a document method which runs insertNode, either for this node relative to other (moveSelf)
+	// or for other relative to this node. The session is taken from the options or else from the documents.
+	const positionMethod = function (name: string, where: InsertPosition, moveSelf: boolean) {
+		schema.method(name, function (other: NestedSetDocument, options?: INestedSetOperationOptions, callback?: (err?: any, res?: any) => void): Promise<NestedSetDocument> {
+			const self: NestedSetDocument = this;
+			if ('function' === typeof options) {
+				callback = options;
+				options = {};
 			}
+			const node = moveSelf ? self : other;
+			const referenceId = moveSelf ? other[idFieldName] : self[idFieldName];
+			options = applySession(applySession(options || {}, node), self);
+			const session = options.session;
+			const promise = withTreeLock(self.constructor, moveSelf ? other : self, function () {
+				return insertNode(self.constructor, node, referenceId, where, session, { actor: options.actor });
+			});
+			return withCallback(promise, callback);
 		});
+	};
+
+	// Moves this node and its descendants to the end of newParent's children
+	positionMethod('moveTo', 'append', true);
+
+	// Inserts or moves child to the end of this node's children
+	positionMethod('appendChild', 'append', false);
+
+	// Inserts or moves child to the start of this node's children
+	positionMethod('prependChild', 'prepend', false);
+
+	// Inserts or moves this node right before sibling
+	positionMethod('insertBefore', 'before', true);
+
+	// Inserts or moves this node right after sibling
+	positionMethod('insertAfter', 'after', true);
+
+	// Removes this node, overriding the removeStrategy option for this call
+	schema.method('removeNode', function (strategy?: RemoveStrategy, options?: INestedSetOperationOptions, callback?: (err?: any, res?: any) => void): Promise<NestedSetDocument> {
+		const self: NestedSetDocument = this;
+		if ('function' === typeof strategy) {
+			callback = strategy;
+			strategy = undefined;
+			options = {};
+		} else if ('function' === typeof options) {
+			callback = options;
+			options = {};
+		}
+		options = options || {};
+		if (options.session) {
+			self.$session(options.session);
+		}
+		return withCallback(removeWithContext(self, strategy, { actor: options.actor }), callback);
 	});
 
 	// Returns true if the node is a leaf node (i.e. has no children)
@@ -216,26 +2303,22 @@ export const NestedSetPlugin = (schema: Schema, options?: INestedSetOptions) =>
 	});
 
 	// Returns true if other is a descendant of self
-	schema.method('isDescendantOf', function (other: INestedSetDocument): boolean {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
+	schema.method('isDescendantOf', function (other: NestedSetDocument): boolean {
+		const self: NestedSetDocument = this;
 		return other["lft"] < self["lft"] && self["lft"] < other["rgt"];
 	});
 
 	// Returns true if other is an ancestor of self
-	schema.method('isAncestorOf', function (other: INestedSetDocument): boolean {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
+	schema.method('isAncestorOf', function (other: NestedSetDocument): boolean {
+		const self: NestedSetDocument = this;
 		return self["lft"] < other["lft"] && other["lft"] < self["rgt"];
 	});
 
-	// returns the parent node
-	schema.method('parent', async function (callback: (err: any, res: any) => void): Promise<INestedSetDocument> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
-		return self.constructor.findOne({ [idFieldName]: self[parentFieldName] }, callback);
-	});
-
-	// Returns the list of ancestors + current node
-	schema.method('selfAndAncestors', async function (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
+	// Sorts out the optional (filters, fields, options, callback) arguments of the traversal methods,
+	// adds the nested set conditions to the filters and returns the query. The query runs right away
+	// when a callback is given, which is kept for compatibility only. With hideArchived the archived
+	// nodes are left out unless the includeArchived option is set.
+	const traversalQuery = function (self: NestedSetDocument, conditions: object, hideArchived: boolean, filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
 		if ('function' === typeof filters) {
 			callback = filters;
 			filters = {};
@@ -251,231 +2334,188 @@ export const NestedSetPlugin = (schema: Schema, options?: INestedSetOptions) =>
 
 		filters = filters || {};
 		fields = fields || null;
-		options = options || {};
+		options = applySession(Object.assign({}, options), self);
 
-		if (filters['$query']) {
-			filters['$query']['lft'] = { $lte: self["lft"] };
-			filters['$query']['rgt'] = { $gte: self["rgt"] };
-		} else {
-			filters['lft'] = { $lte: self["lft"] };
-			filters['rgt'] = { $gte: self["rgt"] };
+		// minDepth and maxDepth are not query options, they narrow the conditions by lvl
+		depthConditions(conditions, self, options);
+		if (hideArchived && !options.includeArchived) {
+			conditions["archivedAt"] = null;
 		}
-		return self.constructor.find(filters, fields, options, callback);
-	});
+		delete options.minDepth;
+		delete options.maxDepth;
+		delete options.includeArchived;
 
-	// Returns the list of ancestors
-	schema.method('ancestors', async function (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
+		Object.assign(filters['$query'] || filters, conditions);
+		return self.constructor.find(filters, fields, options, callback);
+	};
 
-		if ('function' === typeof filters) {
-			callback = filters;
-			filters = {};
-		}
-		else if ('function' === typeof fields) {
-			callback = fields;
-			fields = null;
-		}
-		else if ('function' === typeof options) {
-			callback = options;
-			options = {};
-		}
+	// returns the parent node
+	schema.method('parent', function (callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		return self.constructor.findOne({ [idFieldName]: self[parentFieldName] }, null, applySession({}, self), callback);
+	});
 
-		filters = filters || {};
-		fields = fields || null;
-		options = options || {};
+	// Returns the list of ancestors + current node
+	schema.method('selfAndAncestors', function (filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		return traversalQuery(self, { lft: { $lte: self["lft"] }, rgt: { $gte: self["rgt"] } }, false, filters, fields, options, callback);
+	});
 
-		if (filters['$query']) {
-			filters['$query']['lft'] = { $lt: self["lft"] };
-			filters['$query']['rgt'] = { $gt: self["rgt"] };
-		} else {
-			filters['lft'] = { $lt: self["lft"] };
-			filters['rgt'] = { $gt: self["rgt"] };
-		}
-		return self.constructor.find(filters, fields, options, callback);
+	// Returns the list of ancestors
+	schema.method('ancestors', function (filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		return traversalQuery(self, { lft: { $lt: self["lft"] }, rgt: { $gt: self["rgt"] } }, false, filters, fields, options, callback);
 	});
 
 	// Returns the list of children
-	schema.method('children', async function (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
-		if ('function' === typeof filters) {
-			callback = filters;
-			filters = {};
-		}
-		else if ('function' === typeof fields) {
-			callback = fields;
-			fields = null;
-		}
-		else if ('function' === typeof options) {
-			callback = options;
-			options = {};
-		}
+	schema.method('children', function (filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		return traversalQuery(self, { [parentFieldName]: self[idFieldName] }, true, filters, fields, options, callback);
+	});
 
-		filters = filters || {};
-		fields = fields || null;
-		options = options || {};
+	// Returns the list of children + current node
+	schema.method('selfAndChildren', function (filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		const conditions = { $or: [{ [parentFieldName]: self[idFieldName] }, { [idFieldName]: self[idFieldName] }] };
+		return traversalQuery(self, conditions, true, filters, fields, options, callback);
+	});
 
-		if (filters['$query']) {
-			filters['$query'][parentFieldName] = self[idFieldName];
-		} else {
-			filters[parentFieldName] = self[idFieldName];
-		}
-		return self.constructor.find(filters, fields, options, callback);
+	// Returns the list of descendants + current node
+	schema.method('selfAndDescendants', function (filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		return traversalQuery(self, { lft: { $gte: self["lft"] }, rgt: { $lte: self["rgt"] } }, true, filters, fields, options, callback);
 	});
 
-	// Returns the list of children + current node
-	schema.method('selfAndChildren', async function (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
-		if ('function' === typeof filters) {
-			callback = filters;
-			filters = {};
-		}
-		else if ('function' === typeof fields) {
-			callback = fields;
-			fields = null;
-		}
-		else if ('function' === typeof options) {
-			callback = options;
-			options = {};
-		}
+	// Returns the list of descendants
+	schema.method('descendants', function (filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		return traversalQuery(self, { lft: { $gt: self["lft"] }, rgt: { $lt: self["rgt"] } }, true, filters, fields, options, callback);
+	});
 
-		filters = filters || {};
-		fields = fields || null;
-		options = options || {};
+	// Returns the list of all nodes with the same parent + current node
+	schema.method('selfAndSiblings', function (filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		return traversalQuery(self, { [parentFieldName]: self[parentFieldName] }, true, filters, fields, options, callback);
+	});
 
-		if (filters['$query']) {
-			filters['$query']['$or'] = [{ [parentFieldName]: self[idFieldName] }, { [idFieldName]: self[idFieldName] }];
-		} else {
-			filters['$or'] = [{ [parentFieldName]: self[idFieldName] }, { [idFieldName]: self[idFieldName] }];
-		}
-		return self.constructor.find(filters, fields, options, callback);
+	// Returns the list of all nodes with the same parent
+	schema.method('siblings', function (filters?: any, fields?: any, options?: any, callback?: NestedSetCallback) {
+		const self: NestedSetDocument = this;
+		const conditions = { [parentFieldName]: self[parentFieldName], [idFieldName]: { $ne: self[idFieldName] } };
+		return traversalQuery(self, conditions, true, filters, fields, options, callback);
 	});
 
-	// Returns the list of descendants + current node
-	schema.method('selfAndDescendants', async function (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
-		if ('function' === typeof filters) {
-			callback = filters;
-			filters = {};
-		}
-		else if ('function' === typeof fields) {
-			callback = fields;
-			fields = null;
-		}
-		else if ('function' === typeof options) {
+	// Returns the level of this object in the tree. Root level is 0
+	schema.method('level', function (callback?: NestedSetCallback<number>): Promise<number> {
+		const self: NestedSetDocument = this;
+		return withCallback(Promise.resolve(self["lvl"] || 0), callback);
+	});
+
+	// Archives this node and its descendants in one range update, the ones archived before keep their own archivedAt
+	schema.method('archive', function (options?: INestedSetOperationOptions, callback?: NestedSetCallback<NestedSetDocument>): Promise<NestedSetDocument> {
+		const self: NestedSetDocument = this;
+		if ('function' === typeof options) {
 			callback = options;
 			options = {};
 		}
+		options = applySession(options || {}, self);
+		const session = options.session;
+		const promise = (async function () {
+			// the bounds held in memory may be stale
+			const stored = await self.constructor.findOne({ [idFieldName]: self[idFieldName] }, { lft: true, rgt: true, archivedAt: true }, { lean: true, session });
+			if (!stored || !stored["lft"] || !stored["rgt"]) {
+				throw new Error('tree is not built for ' + self.constructor.modelName + ' nodes');
+			}
 
-		filters = filters || {};
-		fields = fields || null;
-		options = options || {};
-
-		if (filters['$query']) {
-			filters['$query']['lft'] = { $gte: self["lft"] };
-			filters['$query']['rgt'] = { $lte: self["rgt"] };
-		} else {
-			filters['lft'] = { $gte: self["lft"] };
-			filters['rgt'] = { $lte: self["rgt"] };
-		}
-		return self.constructor.find(filters, fields, options, callback);
+			const archivedAt = new Date();
+			const conditions = updateConditions({ lft: { $gte: stored["lft"] }, rgt: { $lte: stored["rgt"] }, archivedAt: null }, self);
+			await self.constructor.updateMany(conditions, { $set: { archivedAt } }, { session });
+			// a node archived before keeps its own archivedAt
+			self["archivedAt"] = stored["archivedAt"] || archivedAt;
+			unmarkSynced(self, ['archivedAt']);
+			return self;
+		})();
+		return withCallback(promise, callback);
 	});
 
-	// Returns the list of descendants
-	schema.method('descendants', async function (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
-		if ('function' === typeof filters) {
-			callback = filters;
-			filters = {};
-		}
-		else if ('function' === typeof fields) {
-			callback = fields;
-			fields = null;
-		}
-		else if ('function' === typeof options) {
+	// Brings back the subtree archived together with this node, as long as its parent is still there and not archived
+	schema.method('restore', function (options?: INestedSetOperationOptions, callback?: NestedSetCallback<NestedSetDocument>): Promise<NestedSetDocument> {
+		const self: NestedSetDocument = this;
+		if ('function' === typeof options) {
 			callback = options;
 			options = {};
 		}
+		options = applySession(options || {}, self);
+		const session = options.session;
+		const promise = (async function () {
+			const stored = await self.constructor.findOne({ [idFieldName]: self[idFieldName] }, { lft: true, rgt: true, archivedAt: true, [parentFieldName]: true }, { lean: true, session });
+			if (!stored || !stored["archivedAt"]) {
+				throw new Error(self.constructor.modelName + ' is not archived');
+			}
+			if (stored[parentFieldName]) {
+				const parent = await self.constructor.findOne({ [idFieldName]: stored[parentFieldName] }, { archivedAt: true }, { lean: true, session });
+				if (!parent) {
+					throw new Error('Cannot restore ' + self.constructor.modelName + ', its parent is gone');
+				}
+				if (parent["archivedAt"]) {
+					throw new Error('Cannot restore ' + self.constructor.modelName + ', its parent is archived');
+				}
+			}
 
-		filters = filters || {};
-		fields = fields || null;
-		options = options || {};
+			const conditions = updateConditions({ lft: { $gte: stored["lft"] }, rgt: { $lte: stored["rgt"] }, archivedAt: stored["archivedAt"] }, self);
+			await self.constructor.updateMany(conditions, { $unset: { archivedAt: true } }, { session });
+			self["archivedAt"] = undefined;
+			unmarkSynced(self, ['archivedAt']);
+			return self;
+		})();
+		return withCallback(promise, callback);
+	});
 
-		if (filters['$query']) {
-			filters['$query']['lft'] = { $gt: self["lft"] };
-			filters['$query']['rgt'] = { $lt: self["rgt"] };
-		} else {
-			filters['lft'] = { $gt: self["lft"] };
-			filters['rgt'] = { $lt: self["rgt"] };
+	// Returns the number of descendants, which follows from the bounds alone. Unlike countDescendants
+	// it includes archived nodes, since an archived subtree keeps its bounds.
+	schema.method('descendantCount', function (): number {
+		const self: NestedSetDocument = this;
+		if (!self["lft"] || !self["rgt"]) {
+			return 0;
 		}
-		return self.constructor.find(filters, fields, options, callback);
+		return (self["rgt"] - self["lft"] - 1) / 2;
 	});
 
-	// Returns the list of all nodes with the same parent + current node
-	schema.method('selfAndSiblings', async function (filters: any, fields: any, options: any, callback: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
-		if ('function' === typeof filters) {
-			callback = filters;
-			filters = {};
-		}
-		else if ('function' === typeof fields) {
-			callback = fields;
-			fields = null;
-		}
-		else if ('function' === typeof options) {
+	// Returns the number of children, leaving out archived ones unless includeArchived is set
+	schema.method('childrenCount', function (options?: INestedSetCountOptions | NestedSetCallback<number>, callback?: NestedSetCallback<number>): Promise<number> {
+		const self: NestedSetDocument = this;
+		if ('function' === typeof options) {
 			callback = options;
 			options = {};
 		}
+		const conditions = archiveConditions({ [parentFieldName]: self[idFieldName] }, options);
+		const promise = self.constructor.countDocuments(conditions).session(self.$session()).exec();
+		return withCallback(promise, callback);
+	});
 
-		filters = filters || {};
-		fields = fields || null;
-		options = options || {};
-
-		if (filters['$query']) {
-			filters['$query'][parentFieldName] = self[parentFieldName];
-		} else {
-			filters[parentFieldName] = self[parentFieldName];
-		}
-		return self.constructor.find(filters, fields, options, callback);
+	// Returns the number of ancestors
+	schema.method('ancestorCount', function (callback?: NestedSetCallback<number>): Promise<number> {
+		const self: NestedSetDocument = this;
+		const conditions = updateConditions({ lft: { $lt: self["lft"] }, rgt: { $gt: self["rgt"] } }, self);
+		const promise = self.constructor.countDocuments(conditions).session(self.$session()).exec();
+		return withCallback(promise, callback);
 	});
 
-	// Returns the list of all nodes with the same parent
-	schema.method('siblings', async function (filters?: any, fields?: any, options?: any, callback?: (err?: any, res?: any) => void): Promise<INestedSetDocument[]> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
+	// Returns the number of descendants matching filters, leaving out archived ones unless includeArchived is set
+	schema.method('countDescendants', function (filters?: any, options?: INestedSetCountOptions | NestedSetCallback<number>, callback?: NestedSetCallback<number>): Promise<number> {
+		const self: NestedSetDocument = this;
 		if ('function' === typeof filters) {
 			callback = filters;
 			filters = {};
 		}
-		else if ('function' === typeof fields) {
-			callback = fields;
-			fields = null;
-		}
 		else if ('function' === typeof options) {
 			callback = options;
 			options = {};
 		}
-
-		filters = filters || {};
-		fields = fields || null;
-		options = options || {};
-
-		if (filters['$query']) {
-			filters['$query'][parentFieldName] = self[parentFieldName];
-			filters['$query'][idFieldName] = { $ne: self[idFieldName] };
-		} else {
-			filters[parentFieldName] = self[parentFieldName];
-			filters[idFieldName] = { $ne: self[idFieldName] };
-		}
-		return self.constructor.find(filters, fields, options, callback);
-	});
-
-	// Returns the level of this object in the tree. Root level is 0
-	schema.method('level', async function (callback): Promise<number> {
-		const self: Model<Document & INestedSetDocument> & INestedSetDocument = this;
-		const ancestors = await self.ancestors(function (err, nodes) {
-			if (callback) callback(err, nodes.length);
-		});
-		return ancestors.length;
+		const conditions = Object.assign({}, filters, archiveConditions(updateConditions({ lft: { $gt: self["lft"] }, rgt: { $lt: self["rgt"] } }, self), options as INestedSetCountOptions));
+		const promise = self.constructor.countDocuments(conditions).session(self.$session()).exec();
+		return withCallback(promise, callback);
 	});
 };
 
-export default NestedSetPlugin;
\ No newline at end of file
+export default NestedSetPlugin;
@@ -1,13 +1,18 @@
-import { model, Model, Document, Types, Schema } from "mongoose";
+import { model, Query, Types, Schema } from "mongoose";
 import * as assert from "assert";
 import * as async from "async";
 import {
 	NestedSetPlugin,
-	INestedSetDocument
+	NestedSetDocument,
+	NestedSetModel,
+	NestedSetEventName,
+	NestedSetVetoError,
+	NestedSetConcurrencyError,
+	DEFAULT_LOCK_COLLECTION
 } from "../../../shared/mongoose/nestedSet";
 
-let UserSchema: Schema<IUser & INestedSetDocument> & INestedSetDocument;
-let User: Model<(INestedSetDocument & Document & IUser), any> & INestedSetDocument;
+let UserSchema: Schema<NestedSetDocument<IUser>>;
+let User: NestedSetModel<IUser>;
 
 interface IUser {
 	username: string;
@@ -24,9 +29,9 @@ describe('NestedSet Promise', function () {
 
 				UserSchema = new Schema({
 					username: { type: String },
-				}, { versionKey: false }) as any;
+				}, { versionKey: false });
 				UserSchema.plugin(NestedSetPlugin, { parentFieldName: "parentReference" });
-				User = model<Document & INestedSetDocument & IUser>('UserTestAsync', UserSchema) as any;
+				User = model<NestedSetDocument<IUser>, NestedSetModel<IUser>>('UserTestAsync', UserSchema);
 				callback(null);
 			},
 			function (callback) {
@@ -281,15 +286,16 @@ describe('NestedSet Promise', function () {
 		assert.ok(!kelly.isAncestorOf(michael));
 	});
 
-	it('pre save middleware should not set lft and rgt if there is no [parentFieldName]', async () => {
+	it('pre save middleware should place a new node without [parentFieldName] behind the existing trees', async () => {
 		let user = new User({
 			username: 'joe'
 		});
 
 		const joe = await user.save();
 		assert.equal('joe', joe.username);
-		assert.ok(!joe.lft);
-		assert.ok(!joe.rgt);
+		assert.equal(21, joe.lft);
+		assert.equal(22, joe.rgt);
+		assert.equal(0, joe.lvl);
 
 		await user.remove(); // Remove user after assertion
 
@@ -387,4 +393,704 @@ describe('NestedSet Promise', function () {
 			}
 		});
 	});
+
+	it('moveTo should move a node and its descendants under the new parent', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const meredith = await User.findOne({ username: 'meredith' });
+		const angela = await User.findOne({ username: 'angela' });
+		await meredith.moveTo(angela);
+		assert.equal(13, meredith.lft);
+		assert.equal(16, meredith.rgt);
+		assert.equal(2, meredith.lvl);
+		const users = await User.find({});
+		users.forEach(function (person) {
+			if (person.username === 'michael') {
+				assert.equal(1, person.lft);
+				assert.equal(18, person.rgt);
+			} else if (person.username === 'jim') {
+				assert.equal(2, person.lft);
+				assert.equal(9, person.rgt);
+			} else if (person.username === 'angela') {
+				assert.equal(10, person.lft);
+				assert.equal(17, person.rgt);
+			} else if (person.username === 'oscar') {
+				assert.equal(11, person.lft);
+				assert.equal(12, person.rgt);
+			} else if (person.username === 'meredith') {
+				assert.equal(13, person.lft);
+				assert.equal(16, person.rgt);
+				assert.equal(String(angela._id), String(person[parentFieldName]));
+			} else if (person.username === 'kelly') {
+				assert.equal(14, person.lft);
+				assert.equal(15, person.rgt);
+				assert.equal(3, person.lvl);
+			}
+		});
+
+		await meredith.insertBefore(await User.findOne({ username: 'jim' })); // Move meredith back after assertion
+	});
+
+	it('moveTo should refuse to move a node under one of its descendants', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const kelly = await User.findOne({ username: 'kelly' });
+		await assert.rejects(michael.moveTo(kelly));
+	});
+
+	it('saving a moved node should not write back its bounds after a later move of its ancestor', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const jim = await User.findOne({ username: 'jim' });
+		const angela = await User.findOne({ username: 'angela' });
+		await jim.moveTo(angela);
+		await angela.moveTo(await User.findOne({ username: 'meredith' }));
+		jim.username = 'jimmy';
+		await jim.save();
+		const stored = await User.findOne({ username: 'jimmy' });
+		assert.equal(3, stored.lvl);
+		assert.ok(stored.isDescendantOf(await User.findOne({ username: 'meredith' })));
+		assert.ok((await User.verifyTree()).valid);
+
+		// Move jim and angela back after assertion
+		stored.username = 'jim';
+		await stored.save();
+		await stored.insertAfter(await User.findOne({ username: 'meredith' }));
+		await (await User.findOne({ username: 'angela' })).insertAfter(await User.findOne({ username: 'jim' }));
+	});
+
+	it('prependChild should insert a new node as first child', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const jim = await User.findOne({ username: 'jim' });
+		const toby = new User({ username: 'toby' });
+		await jim.prependChild(toby);
+		assert.equal(7, toby.lft);
+		assert.equal(8, toby.rgt);
+		assert.equal(2, toby.lvl);
+		assert.equal(String(jim._id), String(toby[parentFieldName]));
+		const phyllis = await User.findOne({ username: 'phyllis' });
+		assert.equal(9, phyllis.lft);
+		const updatedJim = await User.findOne({ username: 'jim' });
+		assert.equal(15, updatedJim.rgt);
+
+		await toby.remove(); // Remove user after assertion
+	});
+
+	it('insertBefore should move an existing node in front of its sibling', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const phyllis = await User.findOne({ username: 'phyllis' });
+		const dwight = await User.findOne({ username: 'dwight' });
+		await dwight.insertBefore(phyllis);
+		const jim = await User.findOne({ username: 'jim' });
+		const people = await jim.children({}, null, { sort: { lft: 1 } });
+		assert.deepEqual(['dwight', 'phyllis', 'stanley'], people.map(function (p) {
+			return p.username;
+		}));
+
+		await dwight.insertAfter(await User.findOne({ username: 'stanley' })); // Move dwight back after assertion
+	});
+
+	it('changing the parent of a saved node should move its subtree', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const jim = await User.findOne({ username: 'jim' });
+		const meredith = await User.findOne({ username: 'meredith' });
+		meredith[parentFieldName] = jim._id;
+		await meredith.save();
+		const kelly = await User.findOne({ username: 'kelly' });
+		const updatedJim = await User.findOne({ username: 'jim' });
+		assert.ok(kelly.isDescendantOf(updatedJim));
+		assert.equal(3, kelly.lvl);
+		assert.equal(2, updatedJim.lft);
+		assert.equal(13, updatedJim.rgt);
+		assert.equal(18, (await User.findOne({ username: 'michael' })).rgt);
+
+		await meredith.insertBefore(await User.findOne({ username: 'jim' })); // Move meredith back after assertion
+	});
+
+	it('saving a node without changing its parent should keep the tree untouched', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const kelly = await User.findOne({ username: 'kelly' });
+		kelly.markModified('username');
+		await kelly.save();
+		const updatedMichael = await User.findOne({ username: 'michael' });
+		assert.equal(1, updatedMichael.lft);
+		assert.equal(18, updatedMichael.rgt);
+	});
+
+	it('removeNode with restrict should refuse to remove a node with children', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const jim = await User.findOne({ username: 'jim' });
+		await assert.rejects(jim.removeNode('restrict'));
+		assert.ok(await User.findOne({ username: 'jim' }));
+	});
+
+	it('removeNode with promote should hand the children over to the grandparent', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const angela = await User.findOne({ username: 'angela' });
+		const toby = new User({ username: 'toby' });
+		await angela.appendChild(toby);
+		const pam = new User({ username: 'pam' });
+		await toby.appendChild(pam);
+		await toby.removeNode('promote');
+		const promoted = await User.findOne({ username: 'pam' });
+		assert.equal(String(angela._id), String(promoted[parentFieldName]));
+		assert.equal(2, promoted.lvl);
+		assert.equal(17, promoted.lft);
+		assert.equal(18, promoted.rgt);
+		assert.equal(20, (await User.findOne({ username: 'michael' })).rgt);
+
+		await promoted.remove(); // Remove user after assertion
+	});
+
+	it('removeNode with cascade should remove the whole subtree', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const angela = await User.findOne({ username: 'angela' });
+		const toby = new User({ username: 'toby' });
+		await angela.appendChild(toby);
+		await toby.appendChild(new User({ username: 'pam' }));
+		await toby.removeNode('cascade');
+		assert.equal(null, await User.findOne({ username: 'pam' }));
+		assert.equal(18, (await User.findOne({ username: 'michael' })).rgt);
+		assert.equal(17, (await User.findOne({ username: 'angela' })).rgt);
+	});
+
+	it('moveNode should run all its reads and writes in the given session', async () => {
+		// records the session of every query and save, rolling back a transaction needs a replica set and is not tested here
+		const sessions: any[] = [];
+		const SessionSchema = new Schema<NestedSetDocument<IUser>>({
+			username: { type: String },
+		});
+		SessionSchema.plugin(NestedSetPlugin, { parentFieldName });
+		['find', 'findOne', 'updateOne', 'updateMany', 'countDocuments'].forEach(function (method) {
+			SessionSchema.pre<Query<any>>(method, function () {
+				sessions.push(this.getOptions().session);
+			});
+		});
+		SessionSchema.pre<NestedSetDocument<IUser>>('save', function () {
+			sessions.push(this.$session());
+		});
+		const SessionUser = model<NestedSetDocument<IUser>, NestedSetModel<IUser>>('UserTestSession', SessionSchema);
+
+		const root = await new SessionUser({ username: 'michael' }).save();
+		const jim = await new SessionUser({ username: 'jim', [parentFieldName]: root._id }).save();
+		const kelly = await new SessionUser({ username: 'kelly', [parentFieldName]: root._id }).save();
+		await SessionUser.rebuildTree(root, 1);
+
+		const session = await SessionUser.db.startSession();
+		sessions.length = 0;
+		const moved = await SessionUser.moveNode(kelly._id, jim._id, { session });
+		session.endSession();
+		assert.ok(sessions.length > 0);
+		sessions.forEach(function (used) {
+			assert.strictEqual(session, used);
+		});
+		assert.equal(String(jim._id), String(moved[parentFieldName]));
+		assert.ok(moved.isDescendantOf(await SessionUser.findOne({ username: 'jim' })));
+	});
+
+	it('concurrent inserts should not overlap when the concurrency option is set', async () => {
+		const LockedSchema = new Schema<NestedSetDocument<IUser>>({
+			username: { type: String },
+		});
+		LockedSchema.plugin(NestedSetPlugin, { parentFieldName, concurrency: { retryDelay: 5 } });
+		const Locked = model<NestedSetDocument<IUser>, NestedSetModel<IUser>>('UserTestLocked', LockedSchema);
+
+		const root = await new Locked({ username: 'michael' }).save();
+		await Locked.rebuildTree(root, 1);
+		await Promise.all(['jim', 'pam', 'dwight', 'andy'].map(function (username) {
+			return new Locked({ username, [parentFieldName]: root._id }).save();
+		}));
+		const children = await Locked.find({ [parentFieldName]: root._id }).sort({ lft: 1 });
+		assert.deepEqual([2, 4, 6, 8], children.map(function (p) {
+			return p.lft;
+		}));
+		assert.equal(10, (await Locked.findById(root._id)).rgt);
+	});
+
+	it('the tree lock should be held until a new node is written', async () => {
+		const SlowSchema = new Schema<NestedSetDocument<IUser>>({
+			username: { type: String },
+		});
+		SlowSchema.plugin(NestedSetPlugin, { parentFieldName, concurrency: { retryDelay: 5 } });
+		// keeps jim between getting its bounds and being inserted while pam is saved
+		SlowSchema.pre<NestedSetDocument<IUser>>('save', function (next) {
+			setTimeout(next, this.username === 'jim' ? 100 : 0);
+		});
+		const Slow = model<NestedSetDocument<IUser>, NestedSetModel<IUser>>('UserTestSlowLocked', SlowSchema);
+
+		const root = await new Slow({ username: 'michael' }).save();
+		await Slow.rebuildTree(root, 1);
+		const jim = new Slow({ username: 'jim', [parentFieldName]: root._id }).save();
+		await new Promise(function (resolve) {
+			setTimeout(resolve, 20);
+		});
+		await Promise.all([jim, new Slow({ username: 'pam', [parentFieldName]: root._id }).save()]);
+		const children = await Slow.find({ [parentFieldName]: root._id }).sort({ lft: 1 });
+		assert.deepEqual([['jim', 2], ['pam', 4]], children.map(function (p) {
+			return [p.username, p.lft];
+		}));
+		assert.equal(6, (await Slow.findById(root._id)).rgt);
+		assert.ok((await Slow.verifyTree()).valid);
+	});
+
+	it('saving should fail with NestedSetConcurrencyError when the tree stays locked', async () => {
+		const BusySchema = new Schema<NestedSetDocument<IUser>>({
+			username: { type: String },
+		});
+		BusySchema.plugin(NestedSetPlugin, { parentFieldName, concurrency: { retries: 2, retryDelay: 5 } });
+		const Busy = model<NestedSetDocument<IUser>, NestedSetModel<IUser>>('UserTestBusyLocked', BusySchema);
+		const locks = Busy.db.collection(DEFAULT_LOCK_COLLECTION);
+
+		await locks.insertOne({ _id: Busy.collection.name, lockedUntil: Date.now() + 60000 });
+		await assert.rejects(new Busy({ username: 'michael' }).save(), NestedSetConcurrencyError);
+		assert.equal(0, await Busy.countDocuments({}));
+
+		await locks.deleteOne({ _id: Busy.collection.name });
+		const michael = await new Busy({ username: 'michael' }).save();
+		assert.equal(1, michael.lft);
+	});
+
+	it('verifyTree should report a consistent tree as valid', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const report = await User.verifyTree();
+		assert.ok(report.valid, JSON.stringify(report.violations));
+		assert.equal(9, report.nodeCount);
+	});
+
+	it('verifyTree should report broken bounds and levels', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		await User.updateOne({ username: 'kelly' }, { $set: { lft: 7, lvl: 5 } });
+		const report = await User.verifyTree();
+		assert.ok(!report.valid);
+		const types = report.violations.map(function (violation) {
+			return violation.type;
+		});
+		assert.ok(types.indexOf('invalidBounds') !== -1);
+		assert.ok(types.indexOf('levelMismatch') !== -1);
+		assert.ok(types.indexOf('outsideParent') !== -1);
+
+		await User.updateOne({ username: 'kelly' }, { $set: { lvl: 2 } }); // Repair kelly after assertion
+	});
+
+	it('rebuildTree should repair the levels of a subtree from its parent references', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		for (const mode of ['recursive', 'bulk'] as ('recursive' | 'bulk')[]) {
+			const jim = await User.findOne({ username: 'jim' });
+			await User.updateMany({ lft: { $gte: jim.lft }, rgt: { $lte: jim.rgt } }, { $inc: { lvl: 3 } });
+			assert.ok(!(await User.verifyTree()).valid);
+			await User.rebuildTree(await User.findOne({ username: 'jim' }), jim.lft, { mode });
+			assert.equal(1, (await User.findOne({ username: 'jim' })).lvl);
+			assert.equal(2, (await User.findOne({ username: 'dwight' })).lvl);
+			assert.ok((await User.verifyTree()).valid, mode);
+		}
+	});
+
+	it('rebuildTree in bulk mode should set lft, rgt and lvl based on [parentFieldName]s', async () => {
+		await User.updateMany({}, { $set: { lft: 0, rgt: 0, lvl: 0 } });
+		const michael = await User.findOne({ username: 'michael' }).lean().exec();
+		await User.rebuildTree(michael, 1, { mode: 'bulk', batchSize: 2 });
+		const users = await User.find({}).lean().exec();
+		users.forEach(function (person) {
+			if (person.username === 'michael') {
+				assert.equal(1, person.lft);
+				assert.equal(18, person.rgt);
+				assert.equal(0, person.lvl);
+			} else if (person.username === 'meredith') {
+				assert.equal(2, person.lft);
+				assert.equal(5, person.rgt);
+				assert.equal(1, person.lvl);
+			} else if (person.username === 'kelly') {
+				assert.equal(3, person.lft);
+				assert.equal(4, person.rgt);
+				assert.equal(2, person.lvl);
+			} else if (person.username === 'oscar') {
+				assert.equal(15, person.lft);
+				assert.equal(16, person.rgt);
+				assert.equal(2, person.lvl);
+			}
+		});
+		assert.ok((await User.verifyTree()).valid);
+	});
+
+	it('rebuildTree should set lvl and resolve a summary', async () => {
+		await User.updateOne({ username: 'kelly' }, { $set: { lvl: 7 } });
+		const michael = await User.findOne({ username: 'michael' }).lean().exec();
+		const summary = await User.rebuildTree(michael, 1);
+		assert.deepEqual({ trees: 1, nodes: 9 }, summary);
+		assert.equal(2, (await User.findOne({ username: 'kelly' })).lvl);
+	});
+
+	it('rebuildForest should number all roots one after another', async () => {
+		const david = await new User({ username: 'david' }).save();
+		const ryan = await new User({ username: 'ryan', [parentFieldName]: david._id }).save();
+		const summary = await User.rebuildForest();
+		assert.deepEqual({ trees: 2, nodes: 11 }, summary);
+		const michael = await User.findOne({ username: 'michael' });
+		assert.equal(1, michael.lft);
+		assert.equal(18, michael.rgt);
+		const updatedDavid = await User.findOne({ username: 'david' });
+		assert.equal(19, updatedDavid.lft);
+		assert.equal(22, updatedDavid.rgt);
+		assert.equal(0, updatedDavid.lvl);
+		const updatedRyan = await User.findOne({ username: 'ryan' });
+		assert.equal(20, updatedRyan.lft);
+		assert.equal(1, updatedRyan.lvl);
+		assert.ok((await User.verifyTree()).valid);
+
+		await updatedRyan.remove(); // Remove users after assertion
+		await updatedDavid.remove();
+	});
+
+	it('descendants should return a query which can be chained', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const jim = await User.findOne({ username: 'jim' });
+		const people = await jim.descendants().sort({ lft: -1 }).limit(2).lean();
+		assert.deepEqual(['dwight', 'stanley'], people.map(function (p) {
+			return p.username;
+		}));
+	});
+
+	it('toTree should nest the subtree into children', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const tree = await michael.toTree();
+		assert.equal('michael', tree.username);
+		assert.deepEqual(['meredith', 'jim', 'angela'], tree.children.map(function (p) {
+			return p.username;
+		}));
+		assert.deepEqual(['phyllis', 'stanley', 'dwight'], tree.children[1].children.map(function (p) {
+			return p.username;
+		}));
+	});
+
+	it('getTree should respect maxDepth and transform', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const tree = await User.getTree(michael._id, {
+			maxDepth: 1,
+			transform: function (node) {
+				return { name: node.username };
+			}
+		});
+		assert.deepEqual({
+			name: 'michael',
+			children: [
+				{ name: 'meredith', children: [] },
+				{ name: 'jim', children: [] },
+				{ name: 'angela', children: [] }
+			]
+		}, tree);
+	});
+
+	it('importTree should insert nested objects below the parent with a single gap', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const angela = await User.findOne({ username: 'angela' });
+		const inserted = await User.importTree({
+			username: 'toby',
+			children: [{ username: 'pam' }, { username: 'ryan', children: [{ username: 'kevin' }] }]
+		}, { parent: angela });
+		assert.equal(4, inserted.length);
+		const toby = await User.findOne({ username: 'toby' });
+		assert.equal(17, toby.lft);
+		assert.equal(24, toby.rgt);
+		assert.equal(2, toby.lvl);
+		assert.equal(String(angela._id), String(toby[parentFieldName]));
+		const kevin = await User.findOne({ username: 'kevin' });
+		assert.equal(4, kevin.lvl);
+		assert.equal(26, (await User.findOne({ username: 'michael' })).rgt);
+		assert.ok((await User.verifyTree()).valid);
+
+		await toby.removeNode('cascade'); // Remove users after assertion
+	});
+
+	it('the path option should keep materialized paths in sync with moves and renames', async () => {
+		interface IPathUser extends IUser {
+			path: string;
+		}
+		const PathSchema = new Schema<NestedSetDocument<IPathUser>>({
+			username: { type: String },
+		});
+		PathSchema.plugin(NestedSetPlugin, { parentFieldName, path: { field: 'path', type: 'string', sourceField: 'username' } });
+		const PathUser = model<NestedSetDocument<IPathUser>, NestedSetModel<IPathUser>>('UserTestPath', PathSchema);
+
+		const root = await new PathUser({ username: 'michael' }).save();
+		const jim = await new PathUser({ username: 'jim', [parentFieldName]: root._id }).save();
+		const angela = await new PathUser({ username: 'angela', [parentFieldName]: root._id }).save();
+		const dwight = await new PathUser({ username: 'dwight', [parentFieldName]: jim._id }).save();
+		assert.equal('/michael/jim/dwight', (await PathUser.findById(dwight._id)).path);
+
+		await jim.moveTo(angela);
+		assert.equal('/michael/angela/jim/dwight', (await PathUser.findById(dwight._id)).path);
+
+		angela.username = 'oscar';
+		await angela.save();
+		assert.equal('/michael/oscar/jim/dwight', (await PathUser.findById(dwight._id)).path);
+
+		const found = await PathUser.findByPathPrefix('/michael/oscar/').sort({ lft: 1 });
+		assert.deepEqual(['jim', 'dwight'], found.map(function (p) {
+			return p.username;
+		}));
+	});
+
+	it('descendants should respect minDepth and maxDepth', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const children = await michael.descendants({}, null, { maxDepth: 1 }).sort({ lft: 1 });
+		assert.deepEqual(['meredith', 'jim', 'angela'], children.map(function (p) {
+			return p.username;
+		}));
+		const grandchildren = await michael.selfAndDescendants({}, null, { minDepth: 2, maxDepth: 2 }).sort({ lft: 1 });
+		assert.deepEqual(['kelly', 'phyllis', 'stanley', 'dwight', 'oscar'], grandchildren.map(function (p) {
+			return p.username;
+		}));
+	});
+
+	it('the count methods should count without loading the nodes', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const jim = await User.findOne({ username: 'jim' });
+		assert.equal(3, jim.descendantCount());
+		assert.equal(3, await jim.childrenCount());
+		assert.equal(1, await jim.ancestorCount());
+		assert.equal(1, await jim.level());
+		assert.equal(8, await michael.countDescendants());
+		assert.equal(1, await michael.countDescendants({ username: 'dwight' }));
+	});
+
+	it('rollup should aggregate a subtree in total and per node', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		assert.equal(9, await User.rollup(michael, { op: 'count' }));
+		assert.equal(4, await User.rollup({ username: 'jim' }, { op: 'count' }));
+		const values = await User.rollup({ username: 'jim' }, { op: 'count', perNode: true });
+		assert.deepEqual([4, 1, 1, 1], values.map(function (value) {
+			return value.value;
+		}));
+		assert.equal(2, await User.rollup(michael, { op: 'max', field: 'lvl' }));
+	});
+
+	it('cachedAggregates should follow inserts, moves, source changes and removals', async () => {
+		interface IAmountUser extends IUser {
+			amount: number;
+			total: number;
+			size: number;
+		}
+		const AmountSchema = new Schema<NestedSetDocument<IAmountUser>>({
+			username: { type: String },
+			amount: { type: Number },
+		});
+		AmountSchema.plugin(NestedSetPlugin, {
+			parentFieldName,
+			cachedAggregates: { total: { op: 'sum', source: 'amount' }, size: { op: 'count' } }
+		});
+		const AmountUser = model<NestedSetDocument<IAmountUser>, NestedSetModel<IAmountUser>>('UserTestAggregates', AmountSchema);
+		const load = async function (username) {
+			return AmountUser.findOne({ username });
+		};
+
+		const root = await new AmountUser({ username: 'michael', amount: 1 }).save();
+		const jim = await new AmountUser({ username: 'jim', amount: 2, [parentFieldName]: root._id }).save();
+		const angela = await new AmountUser({ username: 'angela', amount: 4, [parentFieldName]: root._id }).save();
+		const dwight = await new AmountUser({ username: 'dwight', amount: 8, [parentFieldName]: jim._id }).save();
+		assert.equal(15, (await load('michael')).total);
+		assert.equal(3, (await load('michael')).size);
+		assert.equal(10, (await load('jim')).total);
+
+		await (await load('jim')).moveTo(angela);
+		assert.equal(14, (await load('angela')).total);
+		assert.equal(2, (await load('angela')).size);
+
+		dwight.amount = 16;
+		await dwight.save();
+		assert.equal(22, (await load('angela')).total);
+		assert.equal(23, (await load('michael')).total);
+
+		await (await load('jim')).removeNode('promote');
+		assert.equal(20, (await load('angela')).total);
+		assert.equal(1, (await load('angela')).size);
+
+		await AmountUser.updateMany({}, { $set: { total: 0, size: 0 } });
+		await AmountUser.rebuildTree(await load('michael'), 1);
+		assert.equal(21, (await load('michael')).total);
+		assert.equal(2, (await load('michael')).size);
+	});
+
+	it('commonAncestor, pathBetween and distance should relate two nodes', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const dwight = await User.findOne({ username: 'dwight' });
+		const kelly = await User.findOne({ username: 'kelly' });
+		const stanley = await User.findOne({ username: 'stanley' });
+
+		assert.equal('michael', (await User.commonAncestor(dwight, kelly)).username);
+		assert.equal('jim', (await User.commonAncestor(dwight._id, stanley._id)).username);
+		const path = await User.pathBetween(dwight, kelly);
+		assert.deepEqual(['dwight', 'jim', 'michael', 'meredith', 'kelly'], path.map(function (p) {
+			return p.username;
+		}));
+		assert.equal(4, await User.distance(dwight, kelly));
+		assert.equal(2, await User.distance(michael, dwight));
+		assert.equal(0, await User.distance(dwight, dwight));
+	});
+
+	it('breadcrumbs and findByPath should follow the chain from the root', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const dwight = await User.findOne({ username: 'dwight' });
+		const crumbs = await dwight.breadcrumbs({ field: 'username' });
+		assert.equal('michael / jim / dwight', crumbs.text);
+		assert.equal(3, crumbs.nodes.length);
+
+		const found = await User.findByPath(['michael', 'jim', 'dwight'], { field: 'username' });
+		assert.equal(String(dwight._id), String(found._id));
+		assert.equal(null, await User.findByPath(['michael', 'angela', 'dwight'], { field: 'username' }));
+	});
+
+	it('query helpers and statics should select roots, leaves and levels', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		assert.deepEqual(['michael'], (await User.roots()).map(function (p) {
+			return p.username;
+		}));
+		assert.deepEqual(['kelly', 'phyllis', 'stanley', 'dwight', 'oscar'], (await User.leaves().sort({ lft: 1 })).map(function (p) {
+			return p.username;
+		}));
+		assert.equal(3, (await User.atLevel(1)).length);
+
+		const jim = await User.findOne({ username: 'jim' });
+		const leaves = await User.find({}).leaves().descendantsOf(jim).sort({ lft: 1 });
+		assert.deepEqual(['phyllis', 'stanley', 'dwight'], leaves.map(function (p) {
+			return p.username;
+		}));
+		const dwight = await User.findOne({ username: 'dwight' });
+		assert.deepEqual(['michael'], (await User.find({}).ancestorsOf(dwight).atLevel(0)).map(function (p) {
+			return p.username;
+		}));
+		assert.equal(0, (await User.find({}).roots().leaves()).length);
+	});
+
+	it('structural changes should emit events and only beforeMove hooks should be able to veto', async () => {
+		const EventSchema = new Schema<NestedSetDocument<IUser>>({
+			username: { type: String },
+		});
+		EventSchema.plugin(NestedSetPlugin, { parentFieldName });
+		const EventUser = model<NestedSetDocument<IUser>, NestedSetModel<IUser>>('UserTestEvents', EventSchema);
+		const events: string[] = [];
+		['nodeInserted', 'nodeRemoved', 'subtreeMoved', 'treeRebuilt'].forEach(function (name: NestedSetEventName) {
+			EventUser.on(name, function (event) {
+				events.push(name + ' ' + event.node.username);
+			});
+		});
+		EventUser.beforeMove(function (event) {
+			events.push('beforeMove ' + event.node.username);
+			return event.node.username !== 'dwight';
+		});
+		EventUser.afterMove(function (event) {
+			events.push('afterMove ' + event.node.username);
+			return false;
+		});
+
+		const root = await new EventUser({ username: 'michael' }).save();
+		await EventUser.rebuildTree(root, 1);
+		const jim = await new EventUser({ username: 'jim', [parentFieldName]: root._id }).save();
+		const angela = await new EventUser({ username: 'angela', [parentFieldName]: root._id }).save();
+		const dwight = await new EventUser({ username: 'dwight', [parentFieldName]: jim._id }).save();
+		await jim.moveTo(angela);
+		assert.equal(String(angela._id), String((await EventUser.findOne({ username: 'jim' }))[parentFieldName]));
+		await assert.rejects(dwight.moveTo(root), NestedSetVetoError);
+		assert.equal(String(jim._id), String((await EventUser.findOne({ username: 'dwight' }))[parentFieldName]));
+		await (await EventUser.findOne({ username: 'angela' })).removeNode('promote');
+
+		assert.deepEqual([
+			'nodeInserted michael',
+			'treeRebuilt michael',
+			'nodeInserted jim',
+			'nodeInserted angela',
+			'nodeInserted dwight',
+			'beforeMove jim',
+			'subtreeMoved jim',
+			'afterMove jim',
+			'beforeMove dwight',
+			'nodeRemoved angela'
+		], events);
+	});
+
+	it('the audit option should record changes which can be undone', async () => {
+		const AuditSchema = new Schema<NestedSetDocument<IUser>>({
+			username: { type: String },
+		});
+		AuditSchema.plugin(NestedSetPlugin, { parentFieldName, audit: { collection: 'usertestaudithistory' } });
+		const AuditUser = model<NestedSetDocument<IUser>, NestedSetModel<IUser>>('UserTestAudit', AuditSchema);
+		const children = async function (username) {
+			const parent = await AuditUser.findOne({ username });
+			return (await parent.children().sort({ lft: 1 })).map(function (p) {
+				return p.username;
+			});
+		};
+
+		const root = await new AuditUser({ username: 'michael' }).save();
+		const jim = await new AuditUser({ username: 'jim', [parentFieldName]: root._id }).save();
+		const angela = await new AuditUser({ username: 'angela', [parentFieldName]: root._id }).save();
+		await new AuditUser({ username: 'dwight', [parentFieldName]: jim._id }).save();
+
+		await jim.moveTo(angela, { actor: 'toby' });
+		assert.deepEqual(['angela'], await children('michael'));
+		const undone = await AuditUser.undoLastChange();
+		assert.equal('move', undone.operation);
+		assert.equal('toby', undone.actor);
+		assert.deepEqual(['jim', 'angela'], await children('michael'));
+
+		const removed = await AuditUser.findOne({ username: 'jim' });
+		await removed.removeNode('cascade', { actor: 'toby' });
+		assert.equal(null, await AuditUser.findOne({ username: 'dwight' }));
+		assert.equal('toby', (await AuditUser.undoLastChange()).actor);
+		assert.deepEqual(['jim', 'angela'], await children('michael'));
+		assert.deepEqual(['dwight'], await children('jim'));
+		assert.ok((await AuditUser.verifyTree()).valid);
+	});
+
+	it('archive should hide a subtree until it is restored', async () => {
+		const michael = await User.findOne({ username: 'michael' });
+		await User.rebuildTree(michael, 1);
+		const jim = await User.findOne({ username: 'jim' });
+		await jim.archive();
+		assert.equal(4, await User.countDocuments({ archivedAt: { $ne: null } }));
+		assert.deepEqual(['meredith', 'angela'], (await michael.children().sort({ lft: 1 })).map(function (p) {
+			return p.username;
+		}));
+		assert.equal(4, (await michael.descendants()).length);
+		assert.equal(8, (await michael.descendants({}, null, { includeArchived: true })).length);
+		assert.equal(4, await michael.countDescendants());
+		assert.equal(8, await michael.countDescendants({}, { includeArchived: true }));
+		assert.equal(2, await michael.childrenCount());
+		assert.equal(3, await michael.childrenCount({ includeArchived: true }));
+		assert.equal(8, michael.descendantCount());
+		assert.deepEqual(['meredith', 'angela'], (await michael.toTree()).children.map(function (p) {
+			return p.username;
+		}));
+
+		const toby = await new User({ username: 'toby', [parentFieldName]: jim._id }).save();
+		assert.ok(toby.archivedAt);
+		assert.equal(4, (await michael.descendants()).length);
+
+		const dwight = await User.findOne({ username: 'dwight' });
+		await assert.rejects(dwight.restore(), /parent is archived/);
+		await jim.restore();
+		assert.equal(0, await User.countDocuments({ archivedAt: { $ne: null } }));
+		assert.equal(9, (await michael.descendants()).length);
+
+		await toby.remove(); // Remove user after assertion
+	});
 });
\ No newline at end of file